@@ -1,141 +1,434 @@
 
-import React, { useState } from 'react';
+import React, { useEffect, useMemo, useState } from 'react';
 import { Toast, useToast } from './components/Toast';
 import { FormField, useValidation } from './components/FormValidation';
 import { PaymentIntegration } from './components/PaymentIntegration';
-import { ChevronDown } from 'lucide-react';
-
-interface Service {
-  id: string;
-  name: string;
-  description: string;
-  price: number;
-  selected: boolean;
-  category: 'essential' | 'additional' | 'premium';
-}
+import { PriceSummary } from './components/PriceSummary';
+import { ServiceCard } from './components/ServiceCard';
+import { ApplicantsPicker } from './components/ApplicantsPicker';
+import { PackageCard } from './components/PackageCard';
+import { TargetDatePicker } from './components/TargetDatePicker';
+import { GiftVoucherCard } from './components/GiftVoucherCard';
+import { ManagerPanel } from './components/ManagerPanel';
+import { QuoteHistory } from './components/QuoteHistory';
+import { IssuedCodeCard } from './components/IssuedCodeCard';
+import {
+  adjustmentReasons,
+  applyPriceList,
+  approvalPolicy,
+  calculatePrice,
+  countApplicants,
+  createLocalPriceLockStore,
+  createLocalPromoCodeStore,
+  createPriceLock,
+  costing,
+  discountCap,
+  deselectWithDependents,
+  detectPackage,
+  findDependencyViolations,
+  discountRules,
+  exchangeRates,
+  findDiscountNudges,
+  getCustomerKey,
+  convertMoney,
+  getDependents,
+  getEffectivePriceList,
+  giftVoucherAmounts,
+  getMissingPrerequisites,
+  getPrerequisites,
+  getServiceQuantity,
+  isPriceLockValid,
+  isValidEuVatNumber,
+  priceLists,
+  promoCodes,
+  passThroughFees,
+  paymentPlans,
+  quoteValidityDays,
+  rateLockMinutes,
+  rateMaxAgeMinutes,
+  referralProgram,
+  repairSelection,
+  selectWithPrerequisites,
+  serviceCatalog,
+  servicePackages,
+  singleApplicant,
+  type Applicants,
+  type DiscountNudge,
+  type ManagerAdjustments,
+  type PriceLock,
+  type PricingInput,
+  type ServiceTier,
+  type StaffRole,
+  type TaxRegion
+} from './lib/pricing';
+import { formatMoney, isZero, money, subtract, type Money } from './lib/money';
+import { useDebouncedLookup } from './hooks/use-debounced-lookup';
+import { useNow } from './hooks/use-now';
+import { createLocalCustomerHistory, normalizeEmail } from './lib/customers';
+import { createLocalReferrals } from './lib/referrals';
+import { createLocalOrders, getOutstandingInstallments } from './lib/orders';
+import { createLocalVouchers, type GiftVoucher } from './lib/vouchers';
+import { createLocalQuotes, isQuoteExpired, toQuoteContent, type Quote } from './lib/quotes';
+import {
+  createCachedRateProvider,
+  createRateLock,
+  createStaticRateProvider,
+  isRateTableStale,
+  withMarkup,
+  type RateLock
+} from './lib/rates';
 
 interface ContactFormData {
   name: string;
   email: string;
   phone: string;
   promoCode: string;
+  referralCode: string;
+  voucherCode: string;
+  region: TaxRegion;
+  isBusiness: boolean;
+  vatNumber: string;
 }
 
-interface DiscountRule {
-  type: 'bulk' | 'promo' | 'first_time' | 'seasonal';
-  value: number;
-  description: string;
-  condition?: (services: Service[], formData?: ContactFormData) => boolean;
-}
+const emptyFormData: ContactFormData = {
+  name: '',
+  email: '',
+  phone: '',
+  promoCode: '',
+  referralCode: '',
+  voucherCode: '',
+  region: 'mainland',
+  isBusiness: false,
+  vatNumber: ''
+};
+
+const promoCodeStore = createLocalPromoCodeStore(promoCodes);
+const priceLockStore = createLocalPriceLockStore();
+const customerHistoryRepository = createLocalCustomerHistory();
+const referralRepository = createLocalReferrals([{ code: 'FRIEND-ANNA', referrerKey: 'anna@example.com' }]);
+const orderRepository = createLocalOrders();
+const quoteRepository = createLocalQuotes();
+const voucherRepository = createLocalVouchers([
+  { code: 'GIFT-WELCOME', initialBalance: money(200, 'EUR'), issuedAt: new Date('2026-01-01'), issuedBy: 'admin' }
+]);
+// Manager mode only exists in the staff build (VITE_STAFF_MODE=true) served behind the office login;
+// there ?role=manager or ?role=senior_manager picks the role. The public wizard ignores the parameter.
+const parseStaffRole = (role: string | null): StaffRole | undefined =>
+  role === 'manager' || role === 'senior_manager' ? role : undefined;
+const staffRole = import.meta.env.VITE_STAFF_MODE === 'true'
+  ? parseStaffRole(new URLSearchParams(window.location.search).get('role'))
+  : undefined;
+const rateProvider = createCachedRateProvider(createStaticRateProvider(exchangeRates), rateMaxAgeMinutes * 60_000);
 
 const App = () => {
   const { toasts, addToast, removeToast } = useToast();
-  const { validateForm } = useValidation();
-
-  const [services, setServices] = useState<Service[]>([
-    {
-      id: '1',
-      name: 'NIF (Налоговый номер)',
-      description: 'Получение португальского налогового номера (NIF) - обязательный документ для всех резидентов и нерезидентов, ведущих деятельность в Португалии. Включает подачу документов, сопровождение процесса и получение готового NIF.',
-      price: 100,
-      selected: false,
-      category: 'essential'
-    },
-    {
-      id: '2',
-      name: 'Поддержка в посольстве',
-      description: 'Полное сопровождение при подаче документов в консульство/посольство Португалии. Включает предварительную запись, подготовку пакета документов, консультацию перед подачей и помощь в случае дополнительных запросов.',
-      price: 300,
-      selected: false,
-      category: 'essential'
-    },
-    {
-      id: '3',
-      name: 'NISS номер',
-      description: 'Получение номера социального страхования NISS (Número de Identificação da Segurança Social) - необходим для работы и получения социальных услуг в Португалии. Включает подачу заявления и получение готового номера.',
-      price: 300,
-      selected: false,
-      category: 'additional'
-    },
-    {
-      id: '4',
-      name: 'Открытие банковского счета',
-      description: 'Помощь в открытии банковского счета в португальском банке. Включает выбор оптимального банка, подготовку документов, сопровождение при визите в банк и получение банковских карт.',
-      price: 400,
-      selected: false,
-      category: 'premium'
-    }
-  ]);
-
-  const [formData, setFormData] = useState<ContactFormData>({
-    name: '',
-    email: '',
-    phone: '',
-    promoCode: ''
-  });
+  const { validateField, validateForm } = useValidation();
+  const now = useNow();
+
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const [variantIds, setVariantIds] = useState<Record<string, ServiceTier>>({});
+  const [applicants, setApplicants] = useState<Applicants>(singleApplicant);
+  const [quantities, setQuantities] = useState<Record<string, number>>({});
+  const [packageId, setPackageId] = useState<string | undefined>();
+  const [targetDate, setTargetDate] = useState<string | undefined>();
+  const [priceLock, setPriceLock] = useState<PriceLock | undefined>(() => priceLockStore.load());
+
+  const [formData, setFormData] = useState<ContactFormData>(emptyFormData);
+  const [giftAmount, setGiftAmount] = useState<Money | undefined>();
+  const [issuedVoucher, setIssuedVoucher] = useState<GiftVoucher | undefined>();
+  const [ownReferralCode, setOwnReferralCode] = useState<string | undefined>();
 
   const [formErrors, setFormErrors] = useState<Record<string, string>>({});
   const [termsAccepted, setTermsAccepted] = useState(false);
   const [showContactForm, setShowContactForm] = useState(false);
   const [isProcessing, setIsProcessing] = useState(false);
   const [currentStep, setCurrentStep] = useState<'selection' | 'contact' | 'payment'>('selection');
+  const [rateLock, setRateLock] = useState<RateLock | undefined>();
+  const [paymentPlanId, setPaymentPlanId] = useState(paymentPlans[0].id);
+  const [adjustments, setAdjustments] = useState<ManagerAdjustments | undefined>(
+    () => (staffRole ? { lines: [], overrides: [] } : undefined)
+  );
+  const [quote, setQuote] = useState<Quote | undefined>();
+
+  // Customer history is looked up once the contact step has a usable email or phone
+  const contactReady =
+    validateField(formData.email, { required: true, email: true }, 'email') === null ||
+    validateField(formData.phone, { required: true, phone: true }, 'phone') === null;
+
+  const customerHistory = useDebouncedLookup(
+    contactReady ? `${formData.email}\n${formData.phone}` : undefined,
+    () => customerHistoryRepository.findByContact({ email: formData.email, phone: formData.phone })
+  );
+  const availableCredit = useDebouncedLookup(
+    contactReady ? normalizeEmail(formData.email) : undefined,
+    email => referralRepository.getCredit(email, 'EUR')
+  );
+  const referralLookup = useDebouncedLookup(
+    formData.referralCode.trim(),
+    code => referralRepository.findCode(code).then(found => ({ code, found })),
+    () => addToast('Не удалось проверить реферальный код', 'error')
+  );
+  const voucherLookup = useDebouncedLookup(
+    formData.voucherCode.trim(),
+    code => voucherRepository.findVoucher(code).then(found => ({ code, balance: found?.balance })),
+    () => addToast('Не удалось проверить сертификат', 'error')
+  );
+
+  // Starting a quote locks the current price list so later price changes don't affect it
+  useEffect(() => {
+    if (selectedIds.length === 0 || isPriceLockValid(priceLock, now)) {
+      return;
+    }
+    const current = getEffectivePriceList(priceLists, now);
+    if (current) {
+      const lock = createPriceLock(current, now, quoteValidityDays);
+      priceLockStore.save(lock);
+      setPriceLock(lock);
+    }
+  }, [selectedIds, priceLock, now]);
+
+  // Payment amounts are priced with rates locked for a few minutes; once the lock runs out the order is re-priced
+  useEffect(() => {
+    if (currentStep !== 'payment') {
+      return;
+    }
+    if (rateLock) {
+      const timer = setTimeout(() => {
+        setRateLock(undefined);
+        addToast('Время фиксации курса истекло — суммы пересчитаны по новому курсу', 'info');
+      }, rateLock.expiresAt.getTime() - Date.now());
+      return () => clearTimeout(timer);
+    }
+
+    let cancelled = false;
+    rateProvider
+      .getRates()
+      .then(table => {
+        if (!cancelled) {
+          setRateLock(createRateLock(table, new Date(), rateLockMinutes));
+        }
+      })
+      .catch(() => addToast('Не удалось получить курсы валют', 'error'));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [currentStep, rateLock, addToast]);
+
+  // The engine rejects inconsistent selections; should one slip through, the repaired one is priced instead
+  const pricedSelection = useMemo(
+    () => (findDependencyViolations(serviceCatalog, selectedIds).length > 0
+      ? repairSelection(serviceCatalog, selectedIds)
+      : selectedIds),
+    [selectedIds]
+  );
+
+  useEffect(() => {
+    if (pricedSelection === selectedIds) {
+      return;
+    }
+    const added = serviceCatalog.filter(service => pricedSelection.includes(service.id) && !selectedIds.includes(service.id));
+    if (added.length > 0) {
+      addToast(`Добавлено в заказ: ${added.map(service => service.name).join(', ')} — необходимо для выбранных услуг`, 'info');
+    }
+    setSelectedIds(pricedSelection);
+  }, [pricedSelection, selectedIds, addToast]);
+
+  const pricingInput = useMemo<PricingInput>(() => ({
+    catalog: serviceCatalog,
+    selection: pricedSelection,
+    variants: variantIds,
+    applicants,
+    quantities,
+    packages: servicePackages,
+    packageId,
+    customer: formData,
+    customerHistory,
+    date: now,
+    discountRules,
+    discountCap,
+    costing,
+    adjustments,
+    approvalPolicy,
+    passThroughFees,
+    targetDate,
+    priceLists,
+    priceLock,
+    promoCodes: promoCodeStore,
+    referralProgram,
+    referral: referralLookup,
+    availableCredit,
+    voucher: voucherLookup,
+    exchangeRates: rateLock?.table.rates ?? exchangeRates,
+    paymentPlan: paymentPlans.find(option => option.id === paymentPlanId)?.plan
+  }), [
+    pricedSelection,
+    variantIds,
+    applicants,
+    quantities,
+    packageId,
+    targetDate,
+    formData,
+    customerHistory,
+    referralLookup,
+    availableCredit,
+    voucherLookup,
+    priceLock,
+    rateLock,
+    paymentPlanId,
+    adjustments,
+    now
+  ]);
+
+  const calculation = useMemo(() => calculatePrice(pricingInput), [pricingInput]);
+  // The first installment of the schedule is what gets paid now
+  const payableNowIn = (currency: string, markup: number) => calculatePrice({
+    ...pricingInput,
+    currency,
+    exchangeRates: withMarkup(pricingInput.exchangeRates, currency, markup)
+  }).schedule[0].amount;
+
+  // The quote is saved once the customer moves on from the selection and gets a new version whenever the offer changes
+  useEffect(() => {
+    if (currentStep === 'selection' || giftAmount || calculation.selectedServices.length === 0) {
+      return;
+    }
+    const content = toQuoteContent(calculation, pricingInput.exchangeRates, rateLock, adjustments);
+    const current = quote && !quote.orderId && !isQuoteExpired(quote, now) ? quote : undefined;
+    const validUntil = calculation.priceList?.lockExpiresAt ??
+      new Date(now.getTime() + quoteValidityDays * 24 * 60 * 60 * 1000);
+
+    let cancelled = false;
+    (current
+      // A quote that is no longer in storage (cleared, or unreadable) is started over rather than lost
+      ? quoteRepository.reviseQuote(current.number, content, now)
+        .catch(() => quoteRepository.createQuote(content, now, validUntil))
+      : quoteRepository.createQuote(content, now, validUntil)
+    ).then(saved => {
+      if (cancelled || (saved.number === current?.number && saved.versions.length === current.versions.length)) {
+        return;
+      }
+      if (quote && !current && !quote.orderId) {
+        addToast(`Срок предложения ${quote.number} истек — цены пересчитаны в предложении ${saved.number}`, 'info');
+      } else if (current && saved.number !== current.number) {
+        addToast(`Предложение ${current.number} не удалось обновить — сохранено новое ${saved.number}`, 'warning');
+      }
+      setQuote(saved);
+    }, () => {
+      if (!cancelled) {
+        addToast('Не удалось сохранить предложение', 'error');
+      }
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [currentStep, giftAmount, calculation, pricingInput.exchangeRates, rateLock, adjustments, quote, now, addToast]);
+
+  const nudges = useMemo(
+    () => (selectedIds.length > 0 ? findDiscountNudges(pricingInput, calculation) : []),
+    [selectedIds, pricingInput, calculation]
+  );
 
-  const discountRules: DiscountRule[] = [
-    {
-      type: 'bulk',
-      value: 0.15,
-      description: 'Скидка 15% при заказе всех услуг',
-      condition: (services) => services.every(s => s.selected)
-    },
-    {
-      type: 'promo',
-      value: 0.10,
-      description: 'Промокод на 10% скидку',
-      condition: (services, formData) => formData?.promoCode.toUpperCase() === 'DIGITAL2024'
-    },
-    {
-      type: 'first_time',
-      value: 0.05,
-      description: 'Скидка 5% для новых клиентов',
-      condition: (services) => services.filter(s => s.selected).length >= 2
+  const ratesStale = Boolean(
+    rateLock && isRateTableStale(rateLock.table, rateLock.lockedAt, rateMaxAgeMinutes * 60_000)
+  );
+
+  const priceListId = calculation.priceList?.id;
+  const pricedCatalog = useMemo(() => {
+    const priceList = priceLists.find(candidate => candidate.id === priceListId);
+    return priceList ? applyPriceList(serviceCatalog, priceList) : serviceCatalog;
+  }, [priceListId]);
+
+  // A manual selection that matches a package exactly is offered to switch to it
+  const packageOffer = useMemo(() => {
+    const match = packageId ? undefined : detectPackage(servicePackages, selectedIds);
+    if (!match) {
+      return undefined;
     }
-  ];
+    const savings = subtract(calculation.total, calculatePrice({ ...pricingInput, packageId: match.id }).total);
+    return savings.amount > 0 ? { servicePackage: match, savings } : undefined;
+  }, [packageId, selectedIds, pricingInput, calculation]);
+
+  const serviceNames = (ids: string[]) =>
+    serviceCatalog.filter(service => ids.includes(service.id)).map(service => service.name).join(', ');
 
   const toggleService = (id: string) => {
-    setServices(prev => prev.map(service => 
-      service.id === id ? { ...service, selected: !service.selected } : service
-    ));
+    if (selectedIds.includes(id)) {
+      const dependents = getDependents(serviceCatalog, selectedIds, id);
+      if (dependents.length > 0) {
+        addToast(`Без этой услуги недоступны: ${serviceNames(dependents)} — они также убраны из заказа`, 'warning');
+      }
+      const remaining = deselectWithDependents(serviceCatalog, selectedIds, id);
+      setSelectedIds(remaining);
+      const activePackage = servicePackages.find(servicePackage => servicePackage.id === packageId);
+      if (activePackage && activePackage.serviceIds.some(serviceId => !remaining.includes(serviceId))) {
+        addToast(`Пакет «${activePackage.name}» отменен — услуги посчитаны по отдельности`, 'info');
+        setPackageId(undefined);
+      }
+    } else {
+      const missing = getMissingPrerequisites(serviceCatalog, selectedIds, id);
+      if (missing.length > 0) {
+        addToast(`Добавлено в заказ: ${serviceNames(missing)} — необходимо для этой услуги`, 'info');
+      }
+      setSelectedIds(selectWithPrerequisites(serviceCatalog, selectedIds, id));
+    }
     
     if (navigator.vibrate) {
       navigator.vibrate(50);
     }
   };
 
-  const calculateTotal = () => {
-    const selectedServices = services.filter(s => s.selected);
-    const subtotal = selectedServices.reduce((sum, service) => sum + service.price, 0);
-    
-    let totalDiscount = 0;
-    const appliedDiscounts: string[] = [];
+  const togglePackage = (id: string) => {
+    const servicePackage = servicePackages.find(candidate => candidate.id === id);
+    if (!servicePackage) {
+      return;
+    }
 
-    discountRules.forEach(rule => {
-      if (rule.condition && rule.condition(services, formData)) {
-        totalDiscount = Math.max(totalDiscount, rule.value);
-        appliedDiscounts.push(rule.description);
+    if (packageId === id) {
+      setPackageId(undefined);
+      // Services that need one of the package's services go with it, as when deselecting it by hand
+      const remaining = servicePackage.serviceIds.reduce(
+        (selection, serviceId) => deselectWithDependents(serviceCatalog, selection, serviceId),
+        selectedIds
+      );
+      const dependents = selectedIds.filter(selectedId =>
+        !remaining.includes(selectedId) && !servicePackage.serviceIds.includes(selectedId)
+      );
+      if (dependents.length > 0) {
+        addToast(`Без услуг пакета недоступны: ${serviceNames(dependents)} — они также убраны из заказа`, 'warning');
       }
-    });
+      setSelectedIds(remaining);
+    } else {
+      setPackageId(id);
+      setSelectedIds(prev => servicePackage.serviceIds.reduce(
+        (selection, serviceId) => selectWithPrerequisites(serviceCatalog, selection, serviceId),
+        prev
+      ));
+    }
 
-    const discountAmount = subtotal * totalDiscount;
-    const total = subtotal - discountAmount;
+    if (navigator.vibrate) {
+      navigator.vibrate(50);
+    }
+  };
 
-    return {
-      subtotal,
-      discount: totalDiscount,
-      discountAmount,
-      total,
-      appliedDiscounts,
-      selectedServices
-    };
+  const changeVariant = (id: string, variantId: ServiceTier) => {
+    setVariantIds(prev => ({ ...prev, [id]: variantId }));
+    if (!selectedIds.includes(id)) {
+      toggleService(id);
+    }
+  };
+
+  const applyNudge = (nudge: DiscountNudge) => {
+    setSelectedIds(nudge.selection);
+    if (nudge.package) {
+      setPackageId(nudge.package.id);
+    }
+    addToast(`Добавлено: ${nudge.services.map(service => service.name).join(', ')}`, 'success');
+  };
+
+  const changeQuantity = (id: string, quantity: number) => {
+    setQuantities(prev => ({ ...prev, [id]: quantity }));
   };
 
   const validateContactForm = () => {
@@ -152,14 +445,16 @@ const App = () => {
       errorMap[error.field] = error.message;
     });
 
+    if (formData.isBusiness && formData.vatNumber && !isValidEuVatNumber(formData.vatNumber)) {
+      errorMap.vatNumber = 'Введите VAT номер в формате ЕС, например DE123456789';
+    }
+
     setFormErrors(errorMap);
-    return errors.length === 0;
+    return Object.keys(errorMap).length === 0;
   };
 
   const handleNextStep = () => {
-    const calculation = calculateTotal();
-    
-    if (calculation.selectedServices.length === 0) {
+    if (calculation.selectedServices.length === 0 && !giftAmount) {
       addToast('Выберите хотя бы одну услугу', 'warning');
       return;
     }
@@ -168,7 +463,9 @@ const App = () => {
       setCurrentStep('contact');
       setShowContactForm(true);
     } else if (currentStep === 'contact') {
-      if (validateContactForm()) {
+      if (calculation.adjustments?.approvalRequired && !calculation.adjustments.approved) {
+        addToast('Индивидуальные условия ждут одобрения старшего менеджера', 'warning');
+      } else if (validateContactForm()) {
         setCurrentStep('payment');
         addToast('Данные успешно сохранены!', 'success');
       } else {
@@ -177,16 +474,86 @@ const App = () => {
     }
   };
 
-  const handlePayment = async (method: string, amount: number) => {
+  const handlePayment = async (method: string, amount: Money) => {
     setIsProcessing(true);
     
     try {
       await new Promise(resolve => setTimeout(resolve, 2000));
       
       addToast(`Оплата успешно проведена через ${method}!`, 'success');
+
+      const orderId = Date.now().toString(36).toUpperCase();
+      const paidAt = new Date();
+      const customerKey = normalizeEmail(formData.email);
+
+      if (calculation.promo?.valid) {
+        promoCodeStore.recordUsage(calculation.promo.code, getCustomerKey(formData));
+      }
+      if (calculation.referral?.valid && calculation.referral.referrerKey) {
+        await referralRepository.recordReferral({
+          orderId,
+          code: calculation.referral.code,
+          referrerKey: calculation.referral.referrerKey,
+          refereeKey: customerKey,
+          credit: referralProgram.referrerCredit,
+          date: paidAt
+        });
+      }
+      if (calculation.creditApplied.amount > 0) {
+        await referralRepository.redeemCredit({ orderId, customerKey, amount: calculation.creditApplied, date: paidAt });
+      }
+      if (calculation.voucher && calculation.voucherApplied.amount > 0) {
+        await voucherRepository.redeem({ code: calculation.voucher.code, orderId, amount: calculation.voucherApplied, date: paidAt });
+      }
+      await customerHistoryRepository.recordOrder(formData, paidAt);
+
+      await orderRepository.createOrder({
+        id: orderId,
+        customerKey,
+        createdAt: paidAt,
+        total: calculation.amountDue,
+        revenue: calculation.revenue,
+        passThroughFees: calculation.feesTotal,
+        cost: calculation.cost,
+        margin: calculation.margin,
+        adjustments,
+        quoteNumber: quote?.number,
+        schedule: calculation.schedule
+      });
+      if (quote) {
+        await quoteRepository.markOrdered(quote.number, orderId);
+      }
+      const order = await orderRepository.recordPayment(orderId, {
+        installmentNumber: calculation.schedule[0].number,
+        method,
+        amount,
+        paidAt
+      });
+      const [next] = getOutstandingInstallments(order);
+      if (next) {
+        addToast(
+          `Заказ ${orderId}: следующий платеж ${formatMoney(next.amount)} ` +
+            (next.dueAt ? `до ${next.dueAt.toLocaleDateString('ru-RU')}` : 'перед началом услуги'),
+          'info'
+        );
+      }
+
+      const ownCode = await referralRepository.getOrCreateCode(customerKey);
+      setOwnReferralCode(ownCode.code);
       
-      setServices(prev => prev.map(s => ({ ...s, selected: false })));
-      setFormData({ name: '', email: '', phone: '', promoCode: '' });
+      setSelectedIds([]);
+      setVariantIds({});
+      setApplicants(singleApplicant);
+      setQuantities({});
+      setPackageId(undefined);
+      setTargetDate(undefined);
+      setRateLock(undefined);
+      setPaymentPlanId(paymentPlans[0].id);
+      setAdjustments(staffRole ? { lines: [], overrides: [] } : undefined);
+      setQuote(undefined);
+      priceLockStore.clear();
+      setPriceLock(undefined);
+      setFormData(emptyFormData);
       setCurrentStep('selection');
       setShowContactForm(false);
       setTermsAccepted(false);
@@ -198,7 +565,58 @@ const App = () => {
     }
   };
 
-  const calculation = calculateTotal();
+  const handleGiftPayment = async (method: string) => {
+    setIsProcessing(true);
+
+    try {
+      await new Promise(resolve => setTimeout(resolve, 2000));
+
+      const voucher = await voucherRepository.issueVoucher(
+        { initialBalance: giftAmount, issuedBy: 'purchase', purchaserEmail: normalizeEmail(formData.email) },
+        new Date()
+      );
+      addToast(`Оплата успешно проведена через ${method}!`, 'success');
+      setIssuedVoucher(voucher);
+
+      setGiftAmount(undefined);
+      setRateLock(undefined);
+      setFormData(emptyFormData);
+      setCurrentStep('selection');
+      setShowContactForm(false);
+      setTermsAccepted(false);
+    } catch (error) {
+      addToast('Ошибка при обработке платежа', 'error');
+    } finally {
+      setIsProcessing(false);
+    }
+  };
+
+  const purchaseGift = (amount: Money) => {
+    setGiftAmount(amount);
+    setCurrentStep('contact');
+    setShowContactForm(true);
+  };
+
+  const quoteInfo = quote && !giftAmount && (staffRole ? (
+    <QuoteHistory quote={quote} expired={isQuoteExpired(quote, now)} />
+  ) : (
+    <p className="text-xs font-light text-gray-500 text-center">
+      Предложение {quote.number} действует до {quote.expiresAt.toLocaleDateString('ru-RU')}
+    </p>
+  ));
+
+  const giftSummary = giftAmount && (
+    <div className="bg-white/80 backdrop-blur-2xl rounded-3xl p-6 shadow-2xl shadow-gray-200/20">
+      <h3 className="font-light text-gray-800 mb-2">Подарочный сертификат</h3>
+      <div className="flex justify-between text-lg font-medium">
+        <span>Итого:</span>
+        <span className="bg-gradient-to-r from-blue-600 to-purple-600 bg-clip-text text-transparent">
+          {formatMoney(giftAmount)}
+        </span>
+      </div>
+      <p className="text-xs font-light text-gray-500 mt-2">Код сертификата появится на этой странице сразу после оплаты</p>
+    </div>
+  );
 
   return (
     <div className="min-h-screen bg-gradient-to-br from-gray-50 via-blue-50/30 to-purple-50/30 p-4">
@@ -230,27 +648,92 @@ const App = () => {
           </div>
         </div>
 
+        {issuedVoucher && (
+          <IssuedCodeCard
+            title={`Подарочный сертификат на ${formatMoney(issuedVoucher.initialBalance)}`}
+            code={issuedVoucher.code}
+            description="Сохраните код и передайте его получателю — он вводится при оформлении заказа"
+            onClose={() => setIssuedVoucher(undefined)}
+          />
+        )}
+
+        {ownReferralCode && (
+          <IssuedCodeCard
+            title="Ваш реферальный код для друзей"
+            code={ownReferralCode}
+            description={`Друзья получают скидку ${Math.round(referralProgram.refereeDiscount * 100)}% на первый заказ, ` +
+              `а вы — ${formatMoney(referralProgram.referrerCredit)} на свои заказы за каждого оплатившего друга`}
+            onClose={() => setOwnReferralCode(undefined)}
+          />
+        )}
+
         {/* Services Selection Step - Two Column Layout */}
         {currentStep === 'selection' && (
           <div className="grid grid-cols-1 lg:grid-cols-5 gap-6">
             {/* Left Column - Services List */}
             <div className="lg:col-span-3">
               <div className="space-y-3">
-                {services.map((service) => (
+                <ApplicantsPicker applicants={applicants} onChange={setApplicants} />
+                <TargetDatePicker value={targetDate} onChange={setTargetDate} />
+                {adjustments && (
+                  <ManagerPanel
+                    role={staffRole}
+                    adjustments={adjustments}
+                    lineItems={calculation.lineItems}
+                    currency={calculation.currency}
+                    status={calculation.adjustments}
+                    reasons={adjustmentReasons}
+                    policy={approvalPolicy}
+                    onChange={setAdjustments}
+                  />
+                )}
+                {servicePackages.map((servicePackage) => (
+                  <PackageCard
+                    key={servicePackage.id}
+                    servicePackage={servicePackage}
+                    services={pricedCatalog}
+                    selected={packageId === servicePackage.id}
+                    onToggle={togglePackage}
+                  />
+                ))}
+                {packageOffer && (
+                  <div className="flex items-center justify-between p-4 rounded-2xl bg-purple-50/80 backdrop-blur-xl">
+                    <span className="text-sm font-light text-purple-700">
+                      Ваш выбор совпадает с пакетом «{packageOffer.servicePackage.name}» — 
+                      переключитесь и сэкономьте {formatMoney(packageOffer.savings)}
+                    </span>
+                    <button
+                      onClick={() => togglePackage(packageOffer.servicePackage.id)}
+                      className="ml-3 px-3 py-1.5 rounded-full text-xs font-light bg-purple-500 text-white 
+                        shadow-lg shadow-purple-500/30 transition-all duration-200 active:scale-95 whitespace-nowrap"
+                    >
+                      Выбрать пакет
+                    </button>
+                  </div>
+                )}
+                {pricedCatalog.map((service) => (
                   <ServiceCard 
                     key={service.id}
                     service={service}
+                    selected={selectedIds.includes(service.id)}
+                    variantId={variantIds[service.id]}
+                    quantity={getServiceQuantity(service, applicants, quantities[service.id])}
+                    maxQuantity={countApplicants(applicants)}
+                    prerequisites={serviceNames(getPrerequisites(serviceCatalog, service.id))}
                     onToggle={toggleService}
+                    onVariantChange={changeVariant}
+                    onQuantityChange={changeQuantity}
                   />
                 ))}
+                <GiftVoucherCard amounts={giftVoucherAmounts} onPurchase={purchaseGift} />
               </div>
             </div>
 
             {/* Right Column - Order Summary */}
             <div className="lg:col-span-2">
               <div className="sticky top-4">
-                {calculation.selectedServices.length > 0 && (
-                  <PriceSummary calculation={calculation} />
+                {giftAmount ? giftSummary : calculation.selectedServices.length > 0 && (
+                  <PriceSummary calculation={calculation} nudges={nudges} onApplyNudge={applyNudge} />
                 )}
               </div>
             </div>
@@ -294,19 +777,76 @@ const App = () => {
                   placeholder="+7 (999) 123-45-67"
                 />
                 
+                <div className="space-y-2">
+                  <label className="block text-sm font-light text-gray-700">
+                    Регион налогообложения (IVA)
+                  </label>
+                  <select
+                    value={formData.region}
+                    onChange={(e) => setFormData(prev => ({ ...prev, region: e.target.value as TaxRegion }))}
+                    className="w-full px-4 py-3 rounded-2xl border border-gray-200 bg-white/80 font-light backdrop-blur-xl 
+                      focus:border-blue-500 focus:ring-2 focus:ring-blue-200 focus:outline-none"
+                  >
+                    <option value="mainland">Континентальная Португалия — 23%</option>
+                    <option value="madeira">Мадейра — 22%</option>
+                    <option value="azores">Азорские острова — 16%</option>
+                  </select>
+                </div>
+
+                <label className="flex items-center space-x-3 cursor-pointer">
+                  <input
+                    type="checkbox"
+                    checked={formData.isBusiness}
+                    onChange={(e) => setFormData(prev => ({ ...prev, isBusiness: e.target.checked }))}
+                    className="w-5 h-5 rounded border-2 border-gray-300 text-blue-500 focus:ring-blue-500"
+                  />
+                  <span className="text-sm font-light text-gray-700">Оформляю заказ на компанию</span>
+                </label>
+
+                {formData.isBusiness && (
+                  <FormField
+                    label="VAT номер компании (ЕС)"
+                    value={formData.vatNumber}
+                    onChange={(value) => setFormData(prev => ({ ...prev, vatNumber: value }))}
+                    error={formErrors.vatNumber}
+                    placeholder="DE123456789"
+                  />
+                )}
+                
                 <FormField
                   label="Промокод"
                   value={formData.promoCode}
                   onChange={(value) => setFormData(prev => ({ ...prev, promoCode: value }))}
+                  error={calculation.promo && !calculation.promo.valid ? calculation.promo.message : undefined}
+                  hint={calculation.promo?.valid ? `Промокод применен: ${calculation.promo.message}` : undefined}
                   placeholder="Введите промокод (необязательно)"
                 />
+
+                <FormField
+                  label="Реферальный код"
+                  value={formData.referralCode}
+                  onChange={(value) => setFormData(prev => ({ ...prev, referralCode: value }))}
+                  error={calculation.referral && !calculation.referral.valid ? calculation.referral.message : undefined}
+                  hint={calculation.referral?.valid ? calculation.referral.message : undefined}
+                  placeholder="Код от друга (необязательно)"
+                />
+
+                <FormField
+                  label="Подарочный сертификат"
+                  value={formData.voucherCode}
+                  onChange={(value) => setFormData(prev => ({ ...prev, voucherCode: value }))}
+                  error={calculation.voucher && !calculation.voucher.valid ? calculation.voucher.message : undefined}
+                  hint={calculation.voucher?.valid ? calculation.voucher.message : undefined}
+                  placeholder="GIFT-XXXX-XXXX (необязательно)"
+                />
               </div>
             </div>
 
             {/* Right Column - Order Summary */}
             <div className="lg:col-span-2">
-              <div className="sticky top-4">
-                {calculation.selectedServices.length > 0 && (
+              <div className="sticky top-4 space-y-4">
+                {quoteInfo}
+                {giftAmount ? giftSummary : calculation.selectedServices.length > 0 && (
                   <PriceSummary calculation={calculation} />
                 )}
               </div>
@@ -319,19 +859,70 @@ const App = () => {
           <div className="grid grid-cols-1 lg:grid-cols-5 gap-6">
             {/* Left Column - Payment Options */}
             <div className="lg:col-span-3">
-              <h2 className="text-xl font-light text-gray-800 mb-4">Способ оплаты</h2>
-              <PaymentIntegration
-                total={calculation.total}
-                currency="EUR"
-                onPayment={handlePayment}
-                isProcessing={isProcessing}
-              />
+              {giftAmount ? (
+                <>
+                  <h2 className="text-xl font-light text-gray-800 mb-4">Способ оплаты</h2>
+                  <PaymentIntegration
+                    total={giftAmount}
+                    getAmount={(currency, markup) =>
+                      convertMoney(giftAmount, currency, withMarkup(pricingInput.exchangeRates, currency, markup))}
+                    rateLock={rateLock}
+                    ratesStale={ratesStale}
+                    onPayment={handleGiftPayment}
+                    isProcessing={isProcessing}
+                  />
+                </>
+              ) : isZero(calculation.amountDue) ? (
+                <div className="p-6 rounded-3xl bg-white/80 backdrop-blur-xl space-y-4">
+                  <p className="text-sm font-light text-gray-600">
+                    Заказ полностью покрыт подарочным сертификатом и бонусами — доплачивать ничего не нужно.
+                  </p>
+                  <button
+                    onClick={() => handlePayment('сертификат', calculation.amountDue)}
+                    disabled={isProcessing}
+                    className="w-full py-3 bg-gradient-to-r from-blue-500 to-purple-500 text-white font-light rounded-2xl 
+                      shadow-2xl shadow-blue-500/30 transition-all duration-300 active:scale-95 disabled:opacity-50"
+                  >
+                    {isProcessing ? 'Оформляем заказ...' : 'Оформить заказ'}
+                  </button>
+                </div>
+              ) : (
+                <>
+                  <h2 className="text-xl font-light text-gray-800 mb-4">План оплаты</h2>
+                  <div className="grid grid-cols-2 gap-2 mb-6">
+                    {paymentPlans.map((option) => (
+                      <button
+                        key={option.id}
+                        onClick={() => setPaymentPlanId(option.id)}
+                        className={`p-3 rounded-2xl text-left transition-all duration-200 active:scale-95
+                          ${paymentPlanId === option.id
+                            ? 'bg-blue-500 text-white shadow-lg shadow-blue-500/30'
+                            : 'bg-white/80 backdrop-blur-xl text-gray-700'}`}
+                      >
+                        <div className="text-sm font-medium">{option.name}</div>
+                        <div className="text-xs font-light opacity-80">{option.description}</div>
+                      </button>
+                    ))}
+                  </div>
+
+                  <h2 className="text-xl font-light text-gray-800 mb-4">Способ оплаты</h2>
+                  <PaymentIntegration
+                    total={calculation.schedule[0].amount}
+                    getAmount={payableNowIn}
+                    rateLock={rateLock}
+                    ratesStale={ratesStale}
+                    onPayment={handlePayment}
+                    isProcessing={isProcessing}
+                  />
+                </>
+              )}
             </div>
 
             {/* Right Column - Order Summary */}
             <div className="lg:col-span-2">
-              <div className="sticky top-4">
-                {calculation.selectedServices.length > 0 && (
+              <div className="sticky top-4 space-y-4">
+                {quoteInfo}
+                {giftAmount ? giftSummary : calculation.selectedServices.length > 0 && (
                   <PriceSummary calculation={calculation} />
                 )}
               </div>
@@ -345,7 +936,7 @@ const App = () => {
             {currentStep !== 'payment' && (
               <button
                 onClick={handleNextStep}
-                disabled={calculation.selectedServices.length === 0}
+                disabled={calculation.selectedServices.length === 0 && !giftAmount}
                 className="w-full py-4 bg-gradient-to-r from-blue-500 to-purple-500 text-white font-light rounded-2xl 
                   shadow-2xl shadow-blue-500/30 transition-all duration-300 active:scale-95 hover:-translate-y-0.5
                   disabled:opacity-50 disabled:cursor-not-allowed"
@@ -372,9 +963,12 @@ const App = () => {
             {/* Back Button */}
             {currentStep !== 'selection' && (
               <button
-                onClick={() => setCurrentStep(prev => 
-                  prev === 'payment' ? 'contact' : 'selection'
-                )}
+                onClick={() => {
+                  if (currentStep === 'contact') {
+                    setGiftAmount(undefined);
+                  }
+                  setCurrentStep(prev => prev === 'payment' ? 'contact' : 'selection');
+                }}
                 className="w-full py-3 text-gray-600 font-light rounded-2xl border border-gray-200 
                   bg-white/80 backdrop-blur-xl hover:bg-gray-50 transition-all duration-300"
               >
@@ -390,138 +984,4 @@ const App = () => {
   );
 };
 
-// Улучшенный Service Card Component с лучшим дропдауном
-const ServiceCard: React.FC<{ service: Service; onToggle: (id: string) => void }> = ({ service, onToggle }) => {
-  const [isDescriptionOpen, setIsDescriptionOpen] = useState(false);
-
-  const getCategoryColor = (category: string) => {
-    switch (category) {
-      case 'essential': return 'border-red-200 shadow-red-200/20';
-      case 'additional': return 'border-blue-200 shadow-blue-200/20';
-      case 'premium': return 'border-purple-200 shadow-purple-200/20';
-      default: return 'border-gray-200 shadow-gray-200/20';
-    }
-  };
-
-  const getCategoryBadge = (category: string) => {
-    switch (category) {
-      case 'essential': return { text: 'Обязательно', color: 'bg-red-100 text-red-700' };
-      case 'additional': return { text: 'Дополнительно', color: 'bg-blue-100 text-blue-700' };
-      case 'premium': return { text: 'Премиум', color: 'bg-purple-100 text-purple-700' };
-      default: return { text: '', color: '' };
-    }
-  };
-
-  const badge = getCategoryBadge(service.category);
-
-  return (
-    <div className={`bg-white/80 backdrop-blur-2xl rounded-3xl p-4 shadow-2xl transition-all duration-300 hover:-translate-y-1 ${getCategoryColor(service.category)} ${service.selected ? 'ring-2 ring-blue-500/50' : ''}`}>
-      <div className="flex items-start justify-between">
-        <div className="flex-1">
-          <div className="flex items-center space-x-2 mb-1">
-            <h3 className="font-light text-gray-800">{service.name}</h3>
-            {badge.text && (
-              <span className={`px-2 py-1 rounded-full text-xs font-light ${badge.color}`}>
-                {badge.text}
-              </span>
-            )}
-          </div>
-          
-          <button
-            onClick={() => setIsDescriptionOpen(!isDescriptionOpen)}
-            className="text-blue-600 text-sm font-light bg-blue-50 px-3 py-1.5 rounded-full 
-              hover:bg-blue-100 transition-all duration-200 flex items-center space-x-2"
-          >
-            <span>Подробнее</span>
-            <ChevronDown 
-              className={`w-4 h-4 transition-transform duration-300 ${
-                isDescriptionOpen ? 'rotate-180' : ''
-              }`} 
-            />
-          </button>
-        </div>
-        
-        <div className="flex items-center space-x-3">
-          <span className="font-light text-gray-800">{service.price}€</span>
-          <label className="relative">
-            <input
-              type="checkbox"
-              checked={service.selected}
-              onChange={() => onToggle(service.id)}
-              className="sr-only"
-            />
-            <div className={`w-6 h-6 rounded-full border-2 transition-all duration-300 cursor-pointer ${
-              service.selected 
-                ? 'bg-blue-500 border-blue-500 shadow-lg shadow-blue-500/50 scale-110' 
-                : 'border-gray-300 hover:border-blue-300'
-            }`}>
-              {service.selected && (
-                <div className="w-full h-full flex items-center justify-center">
-                  <span className="text-white text-xs">✓</span>
-                </div>
-              )}
-            </div>
-          </label>
-        </div>
-      </div>
-      
-      <div className={`overflow-hidden transition-all duration-500 ease-out ${
-        isDescriptionOpen ? 'max-h-96 opacity-100 mt-3 pt-3' : 'max-h-0 opacity-0'
-      }`}>
-        <div className="border-t border-gray-100 pt-3">
-          <p className="text-sm font-light text-gray-600 leading-relaxed">
-            {service.description}
-          </p>
-        </div>
-      </div>
-    </div>
-  );
-};
-
-// Price Summary Component
-const PriceSummary: React.FC<{ calculation: any }> = ({ calculation }) => {
-  return (
-    <div className="bg-white/80 backdrop-blur-2xl rounded-3xl p-6 shadow-2xl shadow-blue-500/20 mb-8">
-      <h3 className="font-light text-gray-800 mb-4">Сводка заказа</h3>
-      
-      <div className="space-y-2 mb-4">
-        {calculation.selectedServices.map((service: Service) => (
-          <div key={service.id} className="flex justify-between text-sm">
-            <span className="font-light text-gray-600">{service.name}</span>
-            <span className="text-gray-800">{service.price}€</span>
-          </div>
-        ))}
-      </div>
-      
-      <div className="border-t border-gray-200 pt-4 space-y-2">
-        <div className="flex justify-between">
-          <span className="font-light text-gray-600">Подытог:</span>
-          <span className="text-gray-800">{calculation.subtotal}€</span>
-        </div>
-        
-        {calculation.discount > 0 && (
-          <>
-            <div className="flex justify-between text-green-600">
-              <span className="font-light">Скидка ({Math.round(calculation.discount * 100)}%):</span>
-              <span>-{calculation.discountAmount.toFixed(0)}€</span>
-            </div>
-            {calculation.appliedDiscounts.map((discount: string, index: number) => (
-              <div key={index} className="text-xs text-green-600 font-light">
-                • {discount}
-              </div>
-            ))}
-          </>
-        )}
-        
-        <div className="flex justify-between text-lg font-medium pt-2 border-t border-gray-200">
-          <span>Итого:</span>
-          <span className="bg-gradient-to-r from-blue-600 to-purple-600 bg-clip-text text-transparent">
-            {calculation.total}€
-          </span>
-        </div>
-      </div>
-    </div>
-  );
-};
-
 export default App;
@@ -0,0 +1,56 @@
+import React from 'react';
+import { maxApplicants, type ApplicantType, type Applicants } from '../lib/pricing';
+
+interface ApplicantsPickerProps {
+  applicants: Applicants;
+  onChange: (applicants: Applicants) => void;
+}
+
+const applicantLabels: Record<ApplicantType, string> = {
+  main: 'Основной заявитель',
+  spouse: 'Супруг(а)',
+  child: 'Дети'
+};
+
+export const ApplicantsPicker: React.FC<ApplicantsPickerProps> = ({ applicants, onChange }) => {
+  const update = (type: ApplicantType, delta: number) => {
+    const count = Math.min(Math.max(applicants[type] + delta, 0), maxApplicants[type]);
+    onChange({ ...applicants, [type]: count });
+  };
+
+  return (
+    <div className="bg-white/80 backdrop-blur-2xl rounded-3xl p-4 shadow-2xl shadow-gray-200/20">
+      <h3 className="font-light text-gray-800 mb-3">Кто переезжает</h3>
+      <div className="space-y-2">
+        {(Object.keys(applicantLabels) as ApplicantType[]).map((type) => (
+          <div key={type} className="flex items-center justify-between">
+            <span className="text-sm font-light text-gray-600">{applicantLabels[type]}</span>
+            {type === 'main' ? (
+              <span className="w-24 text-center text-sm text-gray-800">1</span>
+            ) : (
+              <div className="flex items-center space-x-3">
+                <button
+                  onClick={() => update(type, -1)}
+                  disabled={applicants[type] === 0}
+                  className="w-7 h-7 rounded-full border border-gray-200 text-gray-600 hover:border-blue-300 
+                    disabled:opacity-40 disabled:cursor-not-allowed transition-all duration-200"
+                >
+                  −
+                </button>
+                <span className="w-4 text-center text-sm text-gray-800">{applicants[type]}</span>
+                <button
+                  onClick={() => update(type, 1)}
+                  disabled={applicants[type] === maxApplicants[type]}
+                  className="w-7 h-7 rounded-full border border-gray-200 text-gray-600 hover:border-blue-300 
+                    disabled:opacity-40 disabled:cursor-not-allowed transition-all duration-200"
+                >
+                  +
+                </button>
+              </div>
+            )}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
@@ -66,6 +66,7 @@ interface FormFieldProps {
   value: string;
   onChange: (value: string) => void;
   error?: string;
+  hint?: string;
   type?: 'text' | 'email' | 'tel';
   placeholder?: string;
   required?: boolean;
@@ -76,6 +77,7 @@ export const FormField: React.FC<FormFieldProps> = ({
   value,
   onChange,
   error,
+  hint,
   type = 'text',
   placeholder,
   required
@@ -101,6 +103,11 @@ export const FormField: React.FC<FormFieldProps> = ({
           {error}
         </p>
       )}
+      {!error && hint && (
+        <p className="text-green-600 text-xs font-light animate-in slide-in-from-top-1">
+          {hint}
+        </p>
+      )}
     </div>
   );
 };
@@ -0,0 +1,42 @@
+import React, { useState } from 'react';
+import { formatMoney, type Money } from '../lib/money';
+
+interface GiftVoucherCardProps {
+  amounts: Money[];
+  onPurchase: (amount: Money) => void;
+}
+
+export const GiftVoucherCard: React.FC<GiftVoucherCardProps> = ({ amounts, onPurchase }) => {
+  const [selected, setSelected] = useState<Money | undefined>();
+
+  return (
+    <div className="bg-white/80 backdrop-blur-2xl rounded-3xl p-4 shadow-2xl shadow-gray-200/20">
+      <h3 className="font-light text-gray-800">Подарочный сертификат</h3>
+      <p className="text-xs font-light text-gray-500 mb-3">
+        Помогите близким с переездом — сертификат можно потратить на любые услуги за несколько заказов
+      </p>
+      <div className="flex flex-wrap gap-2">
+        {amounts.map((amount) => (
+          <button
+            key={amount.amount}
+            onClick={() => setSelected(amount)}
+            className={`px-3 py-1.5 rounded-full text-xs font-light transition-all duration-200 active:scale-95
+              ${selected?.amount === amount.amount
+                ? 'bg-blue-500 text-white shadow-lg shadow-blue-500/30'
+                : 'border border-gray-200 text-gray-600 hover:border-blue-300'}`}
+          >
+            {formatMoney(amount)}
+          </button>
+        ))}
+        <button
+          onClick={() => selected && onPurchase(selected)}
+          disabled={!selected}
+          className="ml-auto px-3 py-1.5 rounded-full text-xs font-light bg-purple-500 text-white shadow-lg 
+            shadow-purple-500/30 transition-all duration-200 active:scale-95 disabled:opacity-50"
+        >
+          Купить в подарок
+        </button>
+      </div>
+    </div>
+  );
+};
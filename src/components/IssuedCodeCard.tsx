@@ -0,0 +1,39 @@
+import React, { useState } from 'react';
+
+interface IssuedCodeCardProps {
+  title: string;
+  code: string;
+  description: string;
+  onClose: () => void;
+}
+
+/** A code the customer has to keep; stays on screen until they close it */
+export const IssuedCodeCard: React.FC<IssuedCodeCardProps> = ({ title, code, description, onClose }) => {
+  const [copied, setCopied] = useState(false);
+
+  const copy = () => {
+    navigator.clipboard?.writeText(code).then(() => setCopied(true), () => setCopied(false));
+  };
+
+  return (
+    <div className="bg-white/80 backdrop-blur-2xl rounded-3xl p-6 shadow-2xl shadow-green-500/20 mb-6">
+      <div className="flex items-start justify-between">
+        <h3 className="font-light text-gray-800">{title}</h3>
+        <button onClick={onClose} className="text-xs text-gray-400 hover:text-gray-600">
+          ✕
+        </button>
+      </div>
+      <div className="flex items-center space-x-3 my-3">
+        <span className="text-2xl font-mono tracking-wider text-gray-800 select-all">{code}</span>
+        <button
+          onClick={copy}
+          className="px-3 py-1.5 rounded-full text-xs font-light border border-gray-200 text-gray-600
+            hover:border-blue-300 transition-all duration-200 active:scale-95"
+        >
+          {copied ? 'Скопировано' : 'Скопировать'}
+        </button>
+      </div>
+      <p className="text-xs font-light text-gray-500">{description}</p>
+    </div>
+  );
+};
@@ -0,0 +1,236 @@
+import React, { useState } from 'react';
+import { formatMoney, money, toMajor } from '../lib/money';
+import type {
+  AdjustmentReason,
+  AdjustmentReasonOption,
+  AppliedAdjustments,
+  ApprovalPolicy,
+  ManagerAdjustments,
+  PriceLineItem,
+  StaffRole
+} from '../lib/pricing';
+
+interface ManagerPanelProps {
+  role: StaffRole;
+  adjustments: ManagerAdjustments;
+  lineItems: PriceLineItem[];
+  currency: string;
+  status?: AppliedAdjustments;
+  reasons: AdjustmentReasonOption[];
+  policy: ApprovalPolicy;
+  onChange: (adjustments: ManagerAdjustments) => void;
+}
+
+const roleLabels: Record<StaffRole, string> = {
+  manager: 'Менеджер',
+  senior_manager: 'Старший менеджер'
+};
+
+const inputClassName = `px-3 py-2 rounded-xl border border-gray-200 bg-white/80 text-sm font-light
+  focus:border-blue-500 focus:ring-2 focus:ring-blue-200 focus:outline-none`;
+
+const parseAmount = (value: string) => {
+  const amount = parseFloat(value.replace(',', '.'));
+  return Number.isFinite(amount) && amount >= 0 ? amount : undefined;
+};
+
+export const ManagerPanel: React.FC<ManagerPanelProps> = ({
+  role,
+  adjustments,
+  lineItems,
+  currency,
+  status,
+  reasons,
+  policy,
+  onChange
+}) => {
+  const [draft, setDraft] = useState({ name: '', price: '', quantity: '1' });
+
+  const reasonSelect = (value: AdjustmentReason, onSelect: (reason: AdjustmentReason) => void) => (
+    <select
+      value={value}
+      onChange={(e) => onSelect(e.target.value as AdjustmentReason)}
+      className={inputClassName}
+    >
+      {reasons.map(reason => (
+        <option key={reason.id} value={reason.id}>{reason.name}</option>
+      ))}
+    </select>
+  );
+
+  const setOverride = (serviceId: string, value: string) => {
+    const amount = parseAmount(value);
+    const others = adjustments.overrides.filter(override => override.serviceId !== serviceId);
+    const current = adjustments.overrides.find(override => override.serviceId === serviceId);
+    onChange({
+      ...adjustments,
+      overrides: amount === undefined
+        ? others
+        : [...others, { serviceId, price: money(amount, currency), reason: current?.reason ?? reasons[0].id }]
+    });
+  };
+
+  const setOverrideReason = (serviceId: string, reason: AdjustmentReason) => {
+    onChange({
+      ...adjustments,
+      overrides: adjustments.overrides.map(override =>
+        override.serviceId === serviceId ? { ...override, reason } : override
+      )
+    });
+  };
+
+  const addLine = () => {
+    const price = parseAmount(draft.price);
+    const quantity = Math.max(1, parseInt(draft.quantity, 10) || 1);
+    if (!draft.name.trim() || price === undefined) {
+      return;
+    }
+    onChange({
+      ...adjustments,
+      lines: [
+        ...adjustments.lines,
+        { id: `manual-${Date.now().toString(36)}`, name: draft.name.trim(), price: money(price, currency), quantity }
+      ]
+    });
+    setDraft({ name: '', price: '', quantity: '1' });
+  };
+
+  const setDiscount = (value: string) => {
+    const percent = parseAmount(value);
+    onChange({
+      ...adjustments,
+      discount: percent
+        ? { rate: Math.min(percent, 100) / 100, reason: adjustments.discount?.reason ?? reasons[0].id }
+        : undefined
+    });
+  };
+
+  const catalogItems = lineItems.filter(item => !item.manual);
+
+  return (
+    <div className="bg-white/80 backdrop-blur-2xl rounded-3xl p-4 shadow-2xl shadow-gray-200/20 space-y-4">
+      <div className="flex items-center justify-between">
+        <h3 className="font-light text-gray-800">Индивидуальные условия</h3>
+        <span className="text-xs font-light text-gray-500">{roleLabels[role]}</span>
+      </div>
+
+      {/* Price overrides */}
+      {catalogItems.length > 0 && (
+        <div className="space-y-2">
+          <div className="text-xs font-light text-gray-500">Цена за единицу</div>
+          {catalogItems.map((item) => {
+            const override = adjustments.overrides.find(candidate => candidate.serviceId === item.serviceId);
+            return (
+              <div key={item.serviceId} className="space-y-1">
+                <div className="flex items-center justify-between text-sm font-light text-gray-700">
+                  <span>{item.name}</span>
+                  <span className="text-xs text-gray-500">по прайсу {formatMoney(item.listUnitPrice ?? item.unitPrice)}</span>
+                </div>
+                <div className="flex space-x-2">
+                  <input
+                    type="number"
+                    min="0"
+                    value={override ? toMajor(override.price) : ''}
+                    onChange={(e) => setOverride(item.serviceId, e.target.value)}
+                    placeholder="Новая цена"
+                    className={`${inputClassName} w-32`}
+                  />
+                  {override && reasonSelect(override.reason, reason => setOverrideReason(item.serviceId, reason))}
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      {/* Ad-hoc lines */}
+      <div className="space-y-2">
+        <div className="text-xs font-light text-gray-500">Дополнительные работы</div>
+        {adjustments.lines.map((line) => (
+          <div key={line.id} className="flex items-center justify-between text-sm font-light text-gray-700">
+            <span>{line.name} × {line.quantity}</span>
+            <span className="flex items-center space-x-2">
+              <span>{formatMoney(line.price)}</span>
+              <button
+                onClick={() => onChange({ ...adjustments, lines: adjustments.lines.filter(other => other.id !== line.id) })}
+                className="text-xs text-gray-400 hover:text-red-500"
+              >
+                ✕
+              </button>
+            </span>
+          </div>
+        ))}
+        <div className="flex space-x-2">
+          <input
+            value={draft.name}
+            onChange={(e) => setDraft(prev => ({ ...prev, name: e.target.value }))}
+            placeholder="Название"
+            className={`${inputClassName} flex-1 min-w-0`}
+          />
+          <input
+            type="number"
+            min="0"
+            value={draft.price}
+            onChange={(e) => setDraft(prev => ({ ...prev, price: e.target.value }))}
+            placeholder="Цена"
+            className={`${inputClassName} w-24`}
+          />
+          <input
+            type="number"
+            min="1"
+            value={draft.quantity}
+            onChange={(e) => setDraft(prev => ({ ...prev, quantity: e.target.value }))}
+            className={`${inputClassName} w-16`}
+          />
+          <button
+            onClick={addLine}
+            disabled={!draft.name.trim() || parseAmount(draft.price) === undefined}
+            className="px-3 rounded-xl text-xs font-light bg-blue-500 text-white shadow-lg shadow-blue-500/30
+              transition-all duration-200 active:scale-95 disabled:opacity-50"
+          >
+            Добавить
+          </button>
+        </div>
+      </div>
+
+      {/* Manual discount */}
+      <div className="space-y-1">
+        <div className="text-xs font-light text-gray-500">Скидка, %</div>
+        <div className="flex space-x-2">
+          <input
+            type="number"
+            min="0"
+            max="100"
+            value={adjustments.discount ? Math.round(adjustments.discount.rate * 1000) / 10 : ''}
+            onChange={(e) => setDiscount(e.target.value)}
+            placeholder="0"
+            className={`${inputClassName} w-24`}
+          />
+          {adjustments.discount && reasonSelect(adjustments.discount.reason, reason =>
+            onChange({ ...adjustments, discount: { ...adjustments.discount, reason } }))}
+        </div>
+      </div>
+
+      {/* Approval */}
+      {status && (status.reduction.amount !== 0 || status.approvalRequired) && (
+        <div className={`p-3 rounded-2xl text-xs font-light space-y-2
+          ${status.approvalRequired && !status.approved ? 'bg-orange-50 text-orange-700' : 'bg-green-50 text-green-700'}`}
+        >
+          <div>
+            Снижение от прайса: {formatMoney(status.reduction)} ({Math.round(status.reductionRate * 1000) / 10}%)
+          </div>
+          {status.belowMinMargin && <div>Маржа заказа ниже минимальной</div>}
+          {/* Approvals are given in the back office, never from this panel */}
+          {status.approvalRequired && (status.approved ? (
+            <div>Одобрено: {adjustments.approval.approvedBy} ({roleLabels[adjustments.approval.role]})</div>
+          ) : (
+            <div>
+              Нужно одобрение в бэк-офисе:{' '}
+              {policy.approverRoles.map(approver => roleLabels[approver].toLowerCase()).join(', ')}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,53 @@
+import React from 'react';
+import { formatMoney } from '../lib/money';
+import type { Service, ServicePackage } from '../lib/pricing';
+
+interface PackageCardProps {
+  servicePackage: ServicePackage;
+  services: Service[];
+  selected: boolean;
+  onToggle: (id: string) => void;
+}
+
+export const PackageCard: React.FC<PackageCardProps> = ({ servicePackage, services, selected, onToggle }) => {
+  const { pricing } = servicePackage;
+  const included = services.filter(service => servicePackage.serviceIds.includes(service.id));
+
+  return (
+    <button
+      onClick={() => onToggle(servicePackage.id)}
+      className={`w-full text-left bg-gradient-to-r from-blue-50/80 to-purple-50/80 backdrop-blur-2xl rounded-3xl p-4 
+        shadow-2xl shadow-purple-200/20 border border-purple-200 transition-all duration-300 hover:-translate-y-1 
+        ${selected ? 'ring-2 ring-purple-500/50' : ''}`}
+    >
+      <div className="flex items-start justify-between">
+        <div className="flex-1">
+          <div className="flex items-center space-x-2 mb-1">
+            <h3 className="font-light text-gray-800">{servicePackage.name}</h3>
+            <span className="px-2 py-1 rounded-full text-xs font-light bg-purple-100 text-purple-700">Пакет</span>
+          </div>
+          <p className="text-sm font-light text-gray-600">{servicePackage.description}</p>
+          <p className="text-xs font-light text-gray-500 mt-1">
+            {included.map(service => service.name).join(' + ')}
+          </p>
+        </div>
+        <div className="flex items-center space-x-3">
+          <span className="font-light text-gray-800 whitespace-nowrap">
+            {pricing.type === 'fixed' ? formatMoney(pricing.price) : `−${Math.round(pricing.value * 100)}%`}
+          </span>
+          <div className={`w-6 h-6 rounded-full border-2 transition-all duration-300 ${
+            selected 
+              ? 'bg-purple-500 border-purple-500 shadow-lg shadow-purple-500/50 scale-110' 
+              : 'border-gray-300'
+          }`}>
+            {selected && (
+              <div className="w-full h-full flex items-center justify-center">
+                <span className="text-white text-xs">✓</span>
+              </div>
+            )}
+          </div>
+        </div>
+      </div>
+    </button>
+  );
+};
@@ -1,33 +1,54 @@
 
 import React, { useState } from 'react';
+import { formatMoney, money, type Money } from '../lib/money';
+import { withMarkup, type RateLock } from '../lib/rates';
+import { cryptoNetworks, quoteCryptoPayment, type CryptoNetwork } from '../lib/crypto';
+import { useNow } from '../hooks/use-now';
+import { convertMoney, systemClock } from '../lib/pricing';
 
 interface PaymentMethod {
   id: string;
+  currency: string;
+  /** Spread on top of the exchange rate for this route */
+  markup: number;
   name: string;
   icon: string;
   color: string;
   description: string;
+  /** Asset/network pairs to choose from; the amount is then priced in the chosen asset */
+  networks?: CryptoNetwork[];
 }
 
 interface PaymentIntegrationProps {
-  total: number;
-  currency: string;
-  onPayment: (method: string, amount: number) => void;
+  total: Money;
+  /** Amount due priced natively in the given currency, converting with `markup` on top of the rate */
+  getAmount: (currency: string, markup: number) => Money;
+  /** Rates the amounts were converted with; payment waits until they are loaded */
+  rateLock?: RateLock;
+  ratesStale?: boolean;
+  onPayment: (method: string, amount: Money) => void;
   isProcessing: boolean;
 }
 
 export const PaymentIntegration: React.FC<PaymentIntegrationProps> = ({
   total,
-  currency,
+  getAmount,
+  rateLock,
+  ratesStale,
   onPayment,
   isProcessing
 }) => {
   const [selectedMethod, setSelectedMethod] = useState<string>('');
   const [showDetails, setShowDetails] = useState(false);
+  const [showNetworks, setShowNetworks] = useState(false);
+  const [networkId, setNetworkId] = useState<string>('');
+  const now = useNow(systemClock, 1000);
 
   const paymentMethods: PaymentMethod[] = [
     {
       id: 'rub',
+      currency: 'RUB',
+      markup: 0.03,
       name: 'Оплатить рубли',
       icon: '₽',
       color: 'from-blue-500 to-blue-600',
@@ -35,6 +56,8 @@ export const PaymentIntegration: React.FC<PaymentIntegrationProps> = ({
     },
     {
       id: 'eur',
+      currency: 'EUR',
+      markup: 0,
       name: 'Оплатить евро',
       icon: '€',
       color: 'from-green-500 to-green-600',
@@ -42,47 +65,74 @@ export const PaymentIntegration: React.FC<PaymentIntegrationProps> = ({
     },
     {
       id: 'crypto',
+      currency: 'BTC',
+      markup: 0.015,
       name: 'Оплатить крипто',
       icon: '₿',
       color: 'from-purple-500 to-purple-600',
-      description: 'Оплата криптовалютой (BTC, ETH, USDT)'
+      description: 'Оплата криптовалютой (BTC, ETH, USDT)',
+      networks: cryptoNetworks
     }
   ];
 
-  const getConvertedAmount = (methodId: string) => {
-    const rates = { rub: 100, eur: 1, crypto: 0.000015 }; // Примерные курсы
-    const symbols = { rub: '₽', eur: '€', crypto: '₿' };
-    
-    return {
-      amount: (total * rates[methodId as keyof typeof rates]).toFixed(methodId === 'crypto' ? 6 : 2),
-      symbol: symbols[methodId as keyof typeof symbols]
-    };
-  };
-
-  const handlePayment = (methodId: string) => {
-    setSelectedMethod(methodId);
+  const handlePayment = (method: PaymentMethod, paymentId: string, amount: Money) => {
+    setSelectedMethod(method.id);
     setShowDetails(true);
     
     // Симуляция процесса оплаты
     setTimeout(() => {
-      onPayment(methodId, total);
+      onPayment(paymentId, amount);
       setShowDetails(false);
       setSelectedMethod('');
+      setShowNetworks(false);
+      setNetworkId('');
     }, 2000);
   };
 
+  const handleMethodClick = (method: PaymentMethod) => {
+    if (method.networks) {
+      setShowNetworks(prev => !prev);
+      return;
+    }
+    handlePayment(method, method.id, getAmount(method.currency, method.markup));
+  };
+
+  if (!rateLock) {
+    return (
+      <div className="p-4 rounded-2xl bg-gray-50/80 backdrop-blur-xl text-sm font-light text-gray-600">
+        Получаем актуальные курсы валют...
+      </div>
+    );
+  }
+
+  const secondsLeft = Math.max(0, Math.ceil((rateLock.expiresAt.getTime() - now.getTime()) / 1000));
+  const countdown = `${Math.floor(secondsLeft / 60)}:${String(secondsLeft % 60).padStart(2, '0')}`;
+
   return (
     <div className="space-y-4">
+      <div className="flex items-center justify-between text-xs font-light text-gray-500">
+        <span>Курс зафиксирован на {countdown}</span>
+        {ratesStale && (
+          <span className="text-orange-500">
+            Курсы от {rateLock.table.fetchedAt.toLocaleString('ru-RU')} могут быть неактуальны
+          </span>
+        )}
+      </div>
+
       {/* Payment Methods */}
       <div className="space-y-3">
         {paymentMethods.map((method) => {
-          const converted = getConvertedAmount(method.id);
+          const quotes = method.networks?.map(network =>
+            quoteCryptoPayment(network, getAmount(network.asset, method.markup))
+          );
+          const selectedQuote = quotes?.find(quote => quote.network.id === networkId);
+          const amount = method.networks ? selectedQuote?.total : getAmount(method.currency, method.markup);
           const isSelected = selectedMethod === method.id;
           
           return (
             <div key={method.id} className="relative">
               <button
-                onClick={() => handlePayment(method.id)}
+                onClick={() => handleMethodClick(method)}
                 disabled={isProcessing}
                 className={`w-full p-4 rounded-2xl bg-gradient-to-r ${method.color} text-white font-light 
                   shadow-2xl transition-all duration-300 active:scale-95 hover:-translate-y-0.5
@@ -99,15 +149,66 @@ export const PaymentIntegration: React.FC<PaymentIntegrationProps> = ({
                   </div>
                   <div className="text-right">
                     <div className="font-medium">
-                      {converted.amount} {converted.symbol}
+                      {amount ? formatMoney(amount) : method.networks.map(network => network.asset)
+                        .filter((asset, index, assets) => assets.indexOf(asset) === index).join(' · ')}
                     </div>
                     <div className="text-xs opacity-80">
-                      ≈ {total}€
+                      ≈ {formatMoney(total)}
                     </div>
                   </div>
                 </div>
               </button>
 
+              {/* Asset and network choice */}
+              {quotes && showNetworks && (
+                <div className="mt-2 p-3 space-y-2 rounded-2xl bg-white/80 backdrop-blur-xl">
+                  {quotes.map((quote) => {
+                    const { network } = quote;
+                    const unitPrice = convertMoney(
+                      money(1, network.asset),
+                      total.currency,
+                      withMarkup(rateLock.table.rates, network.asset, method.markup)
+                    );
+                    return (
+                      <button
+                        key={network.id}
+                        onClick={() => setNetworkId(network.id)}
+                        disabled={quote.belowMinimum || isProcessing}
+                        className={`w-full p-3 rounded-xl text-left transition-all duration-200
+                          ${networkId === network.id ? 'bg-purple-50 ring-2 ring-purple-400' : 'bg-gray-50'}
+                          ${quote.belowMinimum ? 'opacity-50 cursor-not-allowed' : ''}`}
+                      >
+                        <div className="flex items-center justify-between">
+                          <span className="text-sm font-medium text-gray-800">
+                            {network.asset} · {network.network}
+                          </span>
+                          <span className="text-sm text-gray-800">{formatMoney(quote.total)}</span>
+                        </div>
+                        <div className="text-xs font-light text-gray-500">
+                          1 {network.asset} = {formatMoney(unitPrice)} · {formatMoney(quote.amount)} + комиссия
+                          сети {formatMoney(quote.networkFee)}
+                        </div>
+                        {quote.belowMinimum && (
+                          <div className="text-xs font-light text-orange-500">
+                            Минимальная сумма в этой сети — {formatMoney(network.minAmount)}
+                          </div>
+                        )}
+                      </button>
+                    );
+                  })}
+                  <button
+                    onClick={() => handlePayment(method, selectedQuote.network.id, selectedQuote.total)}
+                    disabled={!selectedQuote || isProcessing}
+                    className="w-full p-3 rounded-xl bg-purple-500 text-white text-sm font-light shadow-lg 
+                      shadow-purple-500/30 transition-all duration-200 active:scale-95 disabled:opacity-50"
+                  >
+                    {selectedQuote
+                      ? `Подтвердить оплату ${formatMoney(selectedQuote.total)}`
+                      : 'Выберите актив и сеть'}
+                  </button>
+                </div>
+              )}
+
               {/* Payment Processing Animation */}
               {isSelected && showDetails && (
                 <div className="absolute inset-0 flex items-center justify-center bg-black/20 rounded-2xl backdrop-blur-sm">
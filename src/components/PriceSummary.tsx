@@ -0,0 +1,350 @@
+import React, { useState } from 'react';
+import { allocate, formatMoney, isZero, subtract, sum } from '../lib/money';
+import {
+  defaultTimeZone,
+  zonedTimeToDate,
+  type DiscountNudge,
+  type PriceCalculation,
+  type PriceLineItem,
+  type SupersededReason,
+  type TaxRegion
+} from '../lib/pricing';
+
+const supersededReasonText: Record<SupersededReason, string> = {
+  exclusive: 'не суммируется с',
+  group: 'заменена более выгодной',
+  not_best: 'менее выгодна, чем',
+  margin_floor: 'не применяется: цена заказа уже минимальная'
+};
+
+const regionText: Record<TaxRegion, string> = {
+  mainland: 'континент',
+  madeira: 'Мадейра',
+  azores: 'Азорские о-ва'
+};
+
+const LineItemDetails: React.FC<{ item: PriceLineItem }> = ({ item }) => (
+  <>
+    {item.name}
+    {item.variantName && (
+      <span className="block text-xs text-gray-400">{item.variantName}</span>
+    )}
+    {(item.applicantTypes || item.manual) && item.quantity > 1 && (
+      <span className="block text-xs text-gray-400">
+        {item.quantity} × {formatMoney(item.unitPrice)}
+        {!isZero(item.dependentDiscountAmount) && ` · семейная скидка -${formatMoney(item.dependentDiscountAmount)}`}
+      </span>
+    )}
+    {item.listUnitPrice && (
+      <span className="block text-xs text-gray-400">
+        индивидуальная цена · по прайсу {formatMoney(item.listUnitPrice)}
+      </span>
+    )}
+    {item.urgencyRate && (
+      <span className="block text-xs text-orange-500">
+        срочность +{Math.round(item.urgencyRate * 100)}% · +{formatMoney(item.urgencySurchargeAmount)}
+      </span>
+    )}
+  </>
+);
+
+// Countdown is shown for time-limited discounts ending within this period
+const expiryWarningMs = 3 * 24 * 60 * 60 * 1000;
+
+const formatTimeLeft = (ms: number) => {
+  const minutes = Math.max(0, Math.floor(ms / 60_000));
+  const days = Math.floor(minutes / (24 * 60));
+  const hours = Math.floor((minutes % (24 * 60)) / 60);
+  if (days > 0) {
+    return `${days} д ${hours} ч`;
+  }
+  return hours > 0 ? `${hours} ч ${minutes % 60} мин` : `${minutes} мин`;
+};
+
+const formatDate = (date: Date) => date.toLocaleDateString('ru-RU', { timeZone: defaultTimeZone });
+
+interface PriceSummaryProps {
+  calculation: PriceCalculation;
+  /** Discounts within reach; each can be taken by adding its services */
+  nudges?: DiscountNudge[];
+  onApplyNudge?: (nudge: DiscountNudge) => void;
+}
+
+export const PriceSummary: React.FC<PriceSummaryProps> = ({ calculation, nudges = [], onApplyNudge }) => {
+  const [taxInclusive, setTaxInclusive] = useState(false);
+  const { tax } = calculation;
+  const packageItems = calculation.lineItems.filter(item => item.packageId);
+  const serviceItems = calculation.lineItems.filter(item => !item.packageId);
+
+  // In tax-inclusive mode the discount is derived from the gross amounts so the rows still add up to the total
+  const subtotal = taxInclusive
+    ? sum(calculation.lineItems.map(item => item.grossAmount), calculation.currency)
+    : calculation.subtotal;
+  const discountAmount = taxInclusive
+    ? subtract(subtotal, subtract(calculation.total, calculation.feesTotal))
+    : calculation.discountAmount;
+  const ruleAmounts = taxInclusive
+    ? allocate(discountAmount, calculation.appliedDiscounts.map(discount => discount.amount.amount))
+    : calculation.appliedDiscounts.map(discount => discount.amount);
+  const taxLabel = tax.reverseCharge
+    ? 'IVA (autoliquidação)'
+    : `IVA ${Math.round(tax.rate * 100)}% (${regionText[tax.region]})`;
+
+  return (
+    <div className="bg-white/80 backdrop-blur-2xl rounded-3xl p-6 shadow-2xl shadow-blue-500/20 mb-8">
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="font-light text-gray-800">Сводка заказа</h3>
+        <div className="flex text-xs font-light bg-gray-100 rounded-full p-0.5">
+          {[false, true].map((inclusive) => (
+            <button
+              key={String(inclusive)}
+              onClick={() => setTaxInclusive(inclusive)}
+              className={`px-3 py-1 rounded-full transition-all duration-200 ${
+                taxInclusive === inclusive ? 'bg-white text-gray-800 shadow' : 'text-gray-500'
+              }`}
+            >
+              {inclusive ? 'с IVA' : 'без IVA'}
+            </button>
+          ))}
+        </div>
+      </div>
+      
+      <div className="space-y-2 mb-4">
+        {calculation.package && (
+          <div className="text-sm">
+            <div className="flex justify-between">
+              <span className="text-gray-800">Пакет «{calculation.package.name}»</span>
+              <span className="text-gray-800">
+                {/* Summed from the lines, so urgency surcharges on package services are included */}
+                {formatMoney(sum(
+                  packageItems.map(item => (taxInclusive ? item.grossAmount : item.amount)),
+                  calculation.currency
+                ))}
+              </span>
+            </div>
+            {!isZero(calculation.package.savings) && (
+              <div className="text-xs text-green-600 font-light">
+                Экономия {formatMoney(calculation.package.savings)} по сравнению с услугами по отдельности
+              </div>
+            )}
+            <div className="mt-1 pl-3 border-l-2 border-blue-100 space-y-1">
+              {packageItems.map((item) => (
+                <div key={item.serviceId} className="text-xs font-light text-gray-600">
+                  <LineItemDetails item={item} />
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+
+        {serviceItems.map((item) => (
+          <div key={item.serviceId} className="flex justify-between text-sm">
+            <span className="font-light text-gray-600">
+              <LineItemDetails item={item} />
+            </span>
+            <span className="text-gray-800">{formatMoney(taxInclusive ? item.grossAmount : item.amount)}</span>
+          </div>
+        ))}
+      </div>
+      
+      <div className="border-t border-gray-200 pt-4 space-y-2">
+        <div className="flex justify-between">
+          <span className="font-light text-gray-600">Подытог:</span>
+          <span className="text-gray-800">{formatMoney(subtotal)}</span>
+        </div>
+        
+        {calculation.discount > 0 && (
+          <>
+            <div className="flex justify-between text-green-600">
+              <span className="font-light">Скидка ({Math.round(calculation.discount * 100)}%):</span>
+              <span>-{formatMoney(discountAmount)}</span>
+            </div>
+            {calculation.appliedDiscounts.map((discount, index) => {
+              const timeLeft = discount.expiresAt && discount.expiresAt.getTime() - calculation.date.getTime();
+              return (
+                <div key={index} className="text-xs text-green-600 font-light">
+                  <div className="flex justify-between">
+                    <span>• {discount.description}</span>
+                    <span>-{formatMoney(ruleAmounts[index])}</span>
+                  </div>
+                  {timeLeft !== undefined && timeLeft <= expiryWarningMs && (
+                    <div className="pl-3 text-orange-500">Действует еще {formatTimeLeft(timeLeft)}</div>
+                  )}
+                </div>
+              );
+            })}
+            {calculation.discountCapped && !calculation.marginFloorApplied && (
+              <div className="text-xs text-gray-500 font-light">
+                • Суммарная скидка ограничена {Math.round(calculation.discount * 100)}%
+              </div>
+            )}
+          </>
+        )}
+
+        {calculation.marginFloorApplied && calculation.discount > 0 && (
+          <div className="text-xs text-gray-500 font-light">
+            • Скидки уменьшены до {Math.round(calculation.discount * 100)}% — ниже цена заказа опуститься не может
+          </div>
+        )}
+        
+        {calculation.supersededDiscounts.length > 0 && (
+          <div className="space-y-1">
+            {calculation.supersededDiscounts.map((discount, index) => (
+              <div key={index} className="text-xs text-gray-400 font-light">
+                <span>• {discount.description}</span>
+                <span>
+                  {' '}— {supersededReasonText[discount.reason]}
+                  {discount.supersededBy && ` «${discount.supersededBy}»`}
+                </span>
+              </div>
+            ))}
+          </div>
+        )}
+
+        {nudges.length > 0 && (
+          <div className="space-y-2">
+            {nudges.map((nudge) => (
+              <div
+                key={nudge.selection.join(',')}
+                className="flex items-center justify-between p-3 rounded-2xl bg-green-50/80 text-xs font-light text-green-700"
+              >
+                <span>
+                  Добавьте {nudge.services.map(service => `«${service.name}»`).join(' и ')} — {' '}
+                  {[
+                    ...(nudge.package ? [`пакет «${nudge.package.name}» (−${formatMoney(nudge.package.savings)})`] : []),
+                    ...nudge.unlocked.map(discount => `${discount.description.toLowerCase()} (−${formatMoney(discount.amount)})`)
+                  ].join(', ')}
+                </span>
+                {onApplyNudge && (
+                  <button
+                    onClick={() => onApplyNudge(nudge)}
+                    className="ml-3 px-3 py-1.5 rounded-full bg-green-500 text-white shadow-lg shadow-green-500/30 
+                      transition-all duration-200 active:scale-95 whitespace-nowrap"
+                  >
+                    Добавить
+                  </button>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+
+        {calculation.urgency && (
+          <div className="text-xs text-orange-500 font-light">
+            • До {formatDate(zonedTimeToDate(calculation.urgency.targetDate, defaultTimeZone))} осталось
+            {' '}{calculation.urgency.daysLeft} дн. — надбавка за срочность {formatMoney(calculation.urgency.amount)} уже в цене услуг
+          </div>
+        )}
+
+        {calculation.customerHistory ? (
+          <div className="text-xs text-gray-500 font-light">
+            {calculation.customerHistory.orderCount === 0
+              ? `• Заказов на ${calculation.customerHistory.customerKey} не найдено — вы новый клиент`
+              : `• Скидка для новых клиентов недоступна: найдено заказов — ${calculation.customerHistory.orderCount}`}
+          </div>
+        ) : (
+          <div className="text-xs text-gray-400 font-light">
+            • Скидку для новых клиентов проверим после ввода email
+          </div>
+        )}
+
+        {!taxInclusive && (
+          <div className="flex justify-between">
+            <span className="font-light text-gray-600">Сумма без IVA:</span>
+            <span className="text-gray-800">{formatMoney(calculation.netTotal)}</span>
+          </div>
+        )}
+
+        <div className="flex justify-between text-sm">
+          <span className="font-light text-gray-600">{taxInclusive ? `в т.ч. ${taxLabel}` : taxLabel}:</span>
+          <span className="text-gray-800">{formatMoney(tax.amount)}</span>
+        </div>
+        {tax.reverseCharge && (
+          <div className="text-xs text-gray-500 font-light">
+            • Обратное начисление: IVA уплачивает покупатель по VAT номеру
+          </div>
+        )}
+
+        {calculation.fees.length > 0 && (
+          <div className="space-y-1 pt-2 border-t border-gray-200">
+            <div className="text-sm font-light text-gray-600">Государственные пошлины:</div>
+            {calculation.fees.map((fee) => (
+              <div key={fee.feeId} className="flex justify-between text-sm">
+                <span className="font-light text-gray-600">
+                  {fee.name}
+                  {fee.quantity > 1 && (
+                    <span className="block text-xs text-gray-400">{fee.quantity} × {formatMoney(fee.unitAmount)}</span>
+                  )}
+                </span>
+                <span className="text-gray-800">{formatMoney(fee.amount)}</span>
+              </div>
+            ))}
+            <div className="text-xs text-gray-400 font-light">
+              • Перечисляются в госорганы без наценки, скидки и IVA на них не распространяются
+            </div>
+          </div>
+        )}
+        
+        <div className="flex justify-between text-lg font-medium pt-2 border-t border-gray-200">
+          <span>Итого:</span>
+          <span className="bg-gradient-to-r from-blue-600 to-purple-600 bg-clip-text text-transparent">
+            {formatMoney(calculation.total)}
+          </span>
+        </div>
+
+        {!isZero(calculation.creditApplied) && (
+          <div className="flex justify-between text-sm text-green-600">
+            <span className="font-light">Реферальный бонус:</span>
+            <span>-{formatMoney(calculation.creditApplied)}</span>
+          </div>
+        )}
+        {!isZero(calculation.voucherApplied) && (
+          <div className="flex justify-between text-sm text-green-600">
+            <span className="font-light">
+              Подарочный сертификат {calculation.voucher?.code}:
+              {calculation.voucher?.balance && (
+                <span className="block text-xs text-gray-400">
+                  останется {formatMoney(subtract(calculation.voucher.balance, calculation.voucherApplied))}
+                </span>
+              )}
+            </span>
+            <span>-{formatMoney(calculation.voucherApplied)}</span>
+          </div>
+        )}
+        {(!isZero(calculation.creditApplied) || !isZero(calculation.voucherApplied)) && (
+          <div className="flex justify-between font-medium">
+            <span>К оплате:</span>
+            <span className="text-gray-800">{formatMoney(calculation.amountDue)}</span>
+          </div>
+        )}
+
+        {calculation.schedule.length > 1 && (
+          <div className="space-y-1 pt-2 border-t border-gray-200">
+            <div className="text-sm font-light text-gray-600">График платежей:</div>
+            {calculation.schedule.map((installment) => (
+              <div key={installment.number} className="flex justify-between text-sm">
+                <span className="font-light text-gray-600">
+                  {installment.description}
+                  <span className="block text-xs text-gray-400">
+                    {installment.dueAt
+                      ? installment.number === 1 ? 'сейчас' : `до ${formatDate(installment.dueAt)}`
+                      : 'перед началом услуги'}
+                  </span>
+                </span>
+                <span className="text-gray-800">{formatMoney(installment.amount)}</span>
+              </div>
+            ))}
+          </div>
+        )}
+
+        {calculation.priceList && (
+          <div className="text-xs text-gray-400 font-light">
+            {calculation.priceList.locked
+              ? `• Цены по прайс-листу v${calculation.priceList.version} зафиксированы до ${formatDate(calculation.priceList.lockExpiresAt)}`
+              : `• Прайс-лист v${calculation.priceList.version} от ${formatDate(new Date(calculation.priceList.effectiveFrom))}`}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
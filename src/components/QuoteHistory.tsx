@@ -0,0 +1,131 @@
+import React, { useState } from 'react';
+import { formatMoney } from '../lib/money';
+import { diffQuoteVersions, getLatestVersion, type Quote, type QuoteLine, type QuoteLineChange } from '../lib/quotes';
+
+interface QuoteHistoryProps {
+  quote: Quote;
+  expired: boolean;
+}
+
+const describeLine = (line: QuoteLine) =>
+  `${line.name}${line.variantName ? ` (${line.variantName})` : ''}${line.quantity > 1 ? ` × ${line.quantity}` : ''}`;
+
+const LineChange: React.FC<{ change: QuoteLineChange }> = ({ change }) => {
+  if (change.type === 'added') {
+    return (
+      <div className="flex justify-between text-green-600">
+        <span>+ {describeLine(change.after)}</span>
+        <span>{formatMoney(change.after.netAmount)}</span>
+      </div>
+    );
+  }
+  if (change.type === 'removed') {
+    return (
+      <div className="flex justify-between text-red-500 line-through">
+        <span>− {describeLine(change.before)}</span>
+        <span>{formatMoney(change.before.netAmount)}</span>
+      </div>
+    );
+  }
+  const { before, after } = change;
+  return (
+    <div className="text-gray-700">
+      <div className="flex justify-between">
+        <span>{after.name}</span>
+        <span>{formatMoney(before.netAmount)} → {formatMoney(after.netAmount)}</span>
+      </div>
+      {before.variantName !== after.variantName && (
+        <div className="text-gray-400">вариант: {before.variantName ?? '—'} → {after.variantName ?? '—'}</div>
+      )}
+      {before.quantity !== after.quantity && (
+        <div className="text-gray-400">количество: {before.quantity} → {after.quantity}</div>
+      )}
+      {before.unitPrice.amount !== after.unitPrice.amount && (
+        <div className="text-gray-400">цена: {formatMoney(before.unitPrice)} → {formatMoney(after.unitPrice)}</div>
+      )}
+    </div>
+  );
+};
+
+/** Quote number, validity and what changed between two of its versions */
+export const QuoteHistory: React.FC<QuoteHistoryProps> = ({ quote, expired }) => {
+  const latest = getLatestVersion(quote);
+  const [range, setRange] = useState<{ from: number; to: number } | undefined>();
+  // Until a range is picked, the last change is shown
+  const from = range?.from ?? Math.max(1, latest.version - 1);
+  const to = range?.to ?? latest.version;
+  const fromVersion = quote.versions.find(version => version.version === from);
+  const toVersion = quote.versions.find(version => version.version === to);
+  const diff = fromVersion && toVersion && diffQuoteVersions(fromVersion, toVersion);
+
+  const versionSelect = (value: number, onSelect: (version: number) => void) => (
+    <select
+      value={value}
+      onChange={(e) => onSelect(Number(e.target.value))}
+      className="px-2 py-1 rounded-xl border border-gray-200 bg-white/80 text-xs font-light focus:outline-none"
+    >
+      {quote.versions.map(version => (
+        <option key={version.version} value={version.version}>
+          v{version.version} · {version.createdAt.toLocaleString('ru-RU')}
+        </option>
+      ))}
+    </select>
+  );
+
+  return (
+    <div className="bg-white/80 backdrop-blur-2xl rounded-3xl p-4 shadow-2xl shadow-gray-200/20 space-y-3">
+      <div className="flex items-center justify-between">
+        <h3 className="font-light text-gray-800">Предложение {quote.number}</h3>
+        <span className={`text-xs font-light ${expired ? 'text-red-500' : 'text-gray-500'}`}>
+          {expired ? 'истекло' : 'действует до'} {quote.expiresAt.toLocaleDateString('ru-RU')}
+        </span>
+      </div>
+
+      {quote.versions.length > 1 ? (
+        <>
+          <div className="flex items-center space-x-2 text-xs font-light text-gray-500">
+            {versionSelect(from, version => setRange({ from: version, to }))}
+            <span>→</span>
+            {versionSelect(to, version => setRange({ from, to: version }))}
+          </div>
+          {diff && (
+            <div className="space-y-1 text-xs font-light">
+              {diff.lines.map((change, index) => (
+                <LineChange key={index} change={change} />
+              ))}
+              {diff.addedDiscounts.map((discount, index) => (
+                <div key={`added-${index}`} className="flex justify-between text-green-600">
+                  <span>+ {discount.description}</span>
+                  <span>-{formatMoney(discount.amount)}</span>
+                </div>
+              ))}
+              {diff.removedDiscounts.map((discount, index) => (
+                <div key={`removed-${index}`} className="flex justify-between text-red-500 line-through">
+                  <span>− {discount.description}</span>
+                  <span>-{formatMoney(discount.amount)}</span>
+                </div>
+              ))}
+              {diff.rates.map(change => (
+                <div key={`rate-${change.currency}`} className="flex justify-between text-gray-500">
+                  <span>курс {change.currency}</span>
+                  <span>{change.before ?? '—'} → {change.after ?? '—'}</span>
+                </div>
+              ))}
+              {diff.ratesLockedAt && (
+                <div className="text-gray-500">
+                  курсы зафиксированы {diff.ratesLockedAt.toLocaleString('ru-RU')}
+                </div>
+              )}
+              <div className="flex justify-between pt-1 text-gray-800">
+                <span>Итого</span>
+                <span>{diff.totalChange.amount > 0 ? '+' : ''}{formatMoney(diff.totalChange)}</span>
+              </div>
+            </div>
+          )}
+        </>
+      ) : (
+        <p className="text-xs font-light text-gray-500">Версия 1 · клиент еще ничего не менял</p>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,172 @@
+import React, { useState } from 'react';
+import { ChevronDown } from 'lucide-react';
+import { formatMoney } from '../lib/money';
+import { getServicePrice, resolveVariant, type Service, type ServiceTier } from '../lib/pricing';
+
+interface ServiceCardProps {
+  service: Service;
+  selected: boolean;
+  variantId?: ServiceTier;
+  /** Number of people the service is ordered for and the household size; only used for `per_person` services */
+  quantity: number;
+  maxQuantity: number;
+  prerequisites: string;
+  onToggle: (id: string) => void;
+  onVariantChange: (id: string, variantId: ServiceTier) => void;
+  onQuantityChange: (id: string, quantity: number) => void;
+}
+
+// Улучшенный Service Card Component с лучшим дропдауном
+export const ServiceCard: React.FC<ServiceCardProps> = ({
+  service,
+  selected,
+  variantId,
+  quantity,
+  maxQuantity,
+  prerequisites,
+  onToggle,
+  onVariantChange,
+  onQuantityChange
+}) => {
+  const [isDescriptionOpen, setIsDescriptionOpen] = useState(false);
+
+  const getCategoryColor = (category: string) => {
+    switch (category) {
+      case 'essential': return 'border-red-200 shadow-red-200/20';
+      case 'additional': return 'border-blue-200 shadow-blue-200/20';
+      case 'premium': return 'border-purple-200 shadow-purple-200/20';
+      default: return 'border-gray-200 shadow-gray-200/20';
+    }
+  };
+
+  const getCategoryBadge = (category: string) => {
+    switch (category) {
+      case 'essential': return { text: 'Обязательно', color: 'bg-red-100 text-red-700' };
+      case 'additional': return { text: 'Дополнительно', color: 'bg-blue-100 text-blue-700' };
+      case 'premium': return { text: 'Премиум', color: 'bg-purple-100 text-purple-700' };
+      default: return { text: '', color: '' };
+    }
+  };
+
+  const badge = getCategoryBadge(service.category);
+  const variant = resolveVariant(service, variantId);
+  const isPerPerson = service.billing === 'per_person';
+
+  return (
+    <div className={`bg-white/80 backdrop-blur-2xl rounded-3xl p-4 shadow-2xl transition-all duration-300 hover:-translate-y-1 ${getCategoryColor(service.category)} ${selected ? 'ring-2 ring-blue-500/50' : ''}`}>
+      <div className="flex items-start justify-between">
+        <div className="flex-1">
+          <div className="flex items-center space-x-2 mb-1">
+            <h3 className="font-light text-gray-800">{service.name}</h3>
+            {badge.text && (
+              <span className={`px-2 py-1 rounded-full text-xs font-light ${badge.color}`}>
+                {badge.text}
+              </span>
+            )}
+          </div>
+
+          {prerequisites && (
+            <p className="text-xs font-light text-gray-500 mb-2">Требуется: {prerequisites}</p>
+          )}
+          
+          <button
+            onClick={() => setIsDescriptionOpen(!isDescriptionOpen)}
+            className="text-blue-600 text-sm font-light bg-blue-50 px-3 py-1.5 rounded-full 
+              hover:bg-blue-100 transition-all duration-200 flex items-center space-x-2"
+          >
+            <span>Подробнее</span>
+            <ChevronDown 
+              className={`w-4 h-4 transition-transform duration-300 ${
+                isDescriptionOpen ? 'rotate-180' : ''
+              }`} 
+            />
+          </button>
+        </div>
+        
+        <div className="flex items-center space-x-3">
+          <span className="font-light text-gray-800">
+            {formatMoney(getServicePrice(service, variantId))}
+            {isPerPerson && <span className="text-xs text-gray-500"> / чел.</span>}
+          </span>
+          <label className="relative">
+            <input
+              type="checkbox"
+              checked={selected}
+              onChange={() => onToggle(service.id)}
+              className="sr-only"
+            />
+            <div className={`w-6 h-6 rounded-full border-2 transition-all duration-300 cursor-pointer ${
+              selected 
+                ? 'bg-blue-500 border-blue-500 shadow-lg shadow-blue-500/50 scale-110' 
+                : 'border-gray-300 hover:border-blue-300'
+            }`}>
+              {selected && (
+                <div className="w-full h-full flex items-center justify-center">
+                  <span className="text-white text-xs">✓</span>
+                </div>
+              )}
+            </div>
+          </label>
+        </div>
+      </div>
+
+      {isPerPerson && selected && maxQuantity > 1 && (
+        <div className="flex items-center justify-between mt-3">
+          <span className="text-sm font-light text-gray-600">Количество заявителей</span>
+          <div className="flex items-center space-x-3">
+            <button
+              onClick={() => onQuantityChange(service.id, quantity - 1)}
+              disabled={quantity <= 1}
+              className="w-7 h-7 rounded-full border border-gray-200 text-gray-600 hover:border-blue-300 
+                disabled:opacity-40 disabled:cursor-not-allowed transition-all duration-200"
+            >
+              −
+            </button>
+            <span className="w-4 text-center text-sm text-gray-800">{quantity}</span>
+            <button
+              onClick={() => onQuantityChange(service.id, quantity + 1)}
+              disabled={quantity >= maxQuantity}
+              className="w-7 h-7 rounded-full border border-gray-200 text-gray-600 hover:border-blue-300 
+                disabled:opacity-40 disabled:cursor-not-allowed transition-all duration-200"
+            >
+              +
+            </button>
+          </div>
+        </div>
+      )}
+
+      {service.variants && service.variants.length > 1 && (
+        <div className="flex flex-wrap gap-2 mt-3">
+          {service.variants.map((option) => (
+            <button
+              key={option.id}
+              onClick={() => onVariantChange(service.id, option.id)}
+              className={`px-3 py-1.5 rounded-full text-xs font-light border transition-all duration-200 ${
+                variant?.id === option.id
+                  ? 'bg-blue-500 border-blue-500 text-white shadow-lg shadow-blue-500/30'
+                  : 'border-gray-200 text-gray-600 hover:border-blue-300'
+              }`}
+            >
+              {option.name} · {option.duration} · {formatMoney(option.price)}
+            </button>
+          ))}
+        </div>
+      )}
+      
+      <div className={`overflow-hidden transition-all duration-500 ease-out ${
+        isDescriptionOpen ? 'max-h-96 opacity-100 mt-3 pt-3' : 'max-h-0 opacity-0'
+      }`}>
+        <div className="border-t border-gray-100 pt-3">
+          <p className="text-sm font-light text-gray-600 leading-relaxed">
+            {service.description}
+          </p>
+          {variant && (
+            <p className="text-sm font-light text-gray-600 leading-relaxed mt-2">
+              <span className="text-gray-800">{variant.name}, {variant.duration}:</span> {variant.description}
+            </p>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
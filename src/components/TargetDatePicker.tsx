@@ -0,0 +1,63 @@
+import React from 'react';
+import { format } from 'date-fns';
+import { ru } from 'date-fns/locale';
+import { Calendar } from './ui/calendar';
+import { Popover, PopoverContent, PopoverTrigger } from './ui/popover';
+
+interface TargetDatePickerProps {
+  /** `YYYY-MM-DD` */
+  value?: string;
+  onChange: (value?: string) => void;
+}
+
+const toLocalDate = (value: string) => {
+  const [year, month, day] = value.split('-').map(Number);
+  return new Date(year, month - 1, day);
+};
+
+export const TargetDatePicker: React.FC<TargetDatePickerProps> = ({ value, onChange }) => {
+  const selected = value ? toLocalDate(value) : undefined;
+  const today = new Date();
+  today.setHours(0, 0, 0, 0);
+
+  return (
+    <div className="bg-white/80 backdrop-blur-2xl rounded-3xl p-4 shadow-2xl shadow-gray-200/20">
+      <div className="flex items-center justify-between">
+        <div>
+          <h3 className="font-light text-gray-800">Когда нужно успеть</h3>
+          <p className="text-xs font-light text-gray-500">Запись в посольство раньше чем через 2 недели — со срочной надбавкой</p>
+        </div>
+        <div className="flex items-center space-x-2">
+          {value && (
+            <button
+              onClick={() => onChange(undefined)}
+              className="text-xs font-light text-gray-400 hover:text-gray-600"
+            >
+              Сбросить
+            </button>
+          )}
+          <Popover>
+            <PopoverTrigger asChild>
+              <button
+                className="px-3 py-1.5 rounded-full text-xs font-light border border-gray-200 text-gray-700 
+                  hover:border-blue-300 transition-all duration-200 whitespace-nowrap"
+              >
+                {selected ? format(selected, 'd MMMM yyyy', { locale: ru }) : 'Выбрать дату'}
+              </button>
+            </PopoverTrigger>
+            <PopoverContent className="w-auto p-0" align="end">
+              <Calendar
+                mode="single"
+                locale={ru}
+                selected={selected}
+                onSelect={(date) => onChange(date ? format(date, 'yyyy-MM-dd') : undefined)}
+                disabled={{ before: today }}
+                initialFocus
+              />
+            </PopoverContent>
+          </Popover>
+        </div>
+      </div>
+    </div>
+  );
+};
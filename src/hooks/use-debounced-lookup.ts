@@ -0,0 +1,50 @@
+import * as React from "react"
+
+/**
+ * Result of `lookup(key)`, run once `key` has stayed the same for `delayMs`.
+ * Answers for a key that has since changed are dropped; without a key, or
+ * when the lookup fails, the result is cleared.
+ */
+export function useDebouncedLookup<T>(
+  key: string | undefined,
+  lookup: (key: string) => Promise<T>,
+  onError?: (error: unknown) => void,
+  delayMs = 400
+) {
+  const [result, setResult] = React.useState<T | undefined>()
+  const lookupRef = React.useRef(lookup)
+  lookupRef.current = lookup
+  const onErrorRef = React.useRef(onError)
+  onErrorRef.current = onError
+
+  React.useEffect(() => {
+    if (!key) {
+      setResult(undefined)
+      return
+    }
+
+    let cancelled = false
+    const timer = setTimeout(() => {
+      lookupRef.current(key).then(
+        found => {
+          if (!cancelled) {
+            setResult(found)
+          }
+        },
+        error => {
+          if (!cancelled) {
+            setResult(undefined)
+            onErrorRef.current?.(error)
+          }
+        }
+      )
+    }, delayMs)
+
+    return () => {
+      cancelled = true
+      clearTimeout(timer)
+    }
+  }, [key, delayMs])
+
+  return result
+}
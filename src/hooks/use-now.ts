@@ -0,0 +1,14 @@
+import * as React from "react"
+import { systemClock, type Clock } from "@/lib/pricing"
+
+/** Current time from `clock`, refreshed every `intervalMs` */
+export function useNow(clock: Clock = systemClock, intervalMs = 60_000) {
+  const [now, setNow] = React.useState(() => clock())
+
+  React.useEffect(() => {
+    const timer = setInterval(() => setNow(clock()), intervalMs)
+    return () => clearInterval(timer)
+  }, [clock, intervalMs])
+
+  return now
+}
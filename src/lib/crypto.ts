@@ -0,0 +1,60 @@
+import { add, money, type Money } from './money';
+
+/** An asset on a particular chain; the asset's decimals come from its currency definition */
+export interface CryptoNetwork {
+  id: string;
+  asset: string;
+  network: string;
+  /** Smallest payment the wallet accepts, before the network fee */
+  minAmount: Money;
+  /** Fee the customer adds on top so the full amount arrives */
+  networkFee: Money;
+}
+
+export interface CryptoQuote {
+  network: CryptoNetwork;
+  amount: Money;
+  networkFee: Money;
+  total: Money;
+  belowMinimum: boolean;
+}
+
+export const cryptoNetworks: CryptoNetwork[] = [
+  {
+    id: 'btc',
+    asset: 'BTC',
+    network: 'Bitcoin',
+    minAmount: money(0.0005, 'BTC'),
+    networkFee: money(0.00002, 'BTC')
+  },
+  {
+    id: 'eth',
+    asset: 'ETH',
+    network: 'Ethereum',
+    minAmount: money(0.005, 'ETH'),
+    networkFee: money(0.0005, 'ETH')
+  },
+  {
+    id: 'usdt-trc20',
+    asset: 'USDT',
+    network: 'TRON (TRC-20)',
+    minAmount: money(10, 'USDT'),
+    networkFee: money(1, 'USDT')
+  },
+  {
+    id: 'usdt-erc20',
+    asset: 'USDT',
+    network: 'Ethereum (ERC-20)',
+    minAmount: money(20, 'USDT'),
+    networkFee: money(5, 'USDT')
+  }
+];
+
+/** What the customer has to send on `network` to pay `amount` (priced in the network's asset) */
+export const quoteCryptoPayment = (network: CryptoNetwork, amount: Money): CryptoQuote => ({
+  network,
+  amount,
+  networkFee: network.networkFee,
+  total: add(amount, network.networkFee),
+  belowMinimum: amount.amount < network.minAmount.amount
+});
@@ -0,0 +1,73 @@
+import { createJsonStore, defaultStorage } from './storage';
+
+export interface CustomerContact {
+  email: string;
+  phone: string;
+}
+
+export interface CustomerHistory {
+  /** Normalized e-mail or phone the history was found by */
+  customerKey: string;
+  orderCount: number;
+  firstOrderAt?: Date;
+  lastOrderAt?: Date;
+}
+
+/**
+ * Source of past orders per customer. The wizard ships with a local
+ * implementation; a backend can provide one over its own database.
+ */
+export interface CustomerHistoryRepository {
+  findByContact: (contact: CustomerContact) => Promise<CustomerHistory | undefined>;
+  recordOrder: (contact: CustomerContact, date: Date) => Promise<void>;
+}
+
+export const normalizeEmail = (email: string) => email.trim().toLowerCase();
+
+export const normalizePhone = (phone: string) => phone.replace(/[^\d]/g, '');
+
+/** Keys a customer can be recognized by; either one matching counts */
+const contactKeys = ({ email, phone }: CustomerContact) =>
+  [
+    normalizeEmail(email) && `email:${normalizeEmail(email)}`,
+    normalizePhone(phone).length >= 10 && `phone:${normalizePhone(phone)}`
+  ].filter((key): key is string => Boolean(key));
+
+interface StoredOrder {
+  keys: string[];
+  date: string;
+}
+
+/** Customer history kept in `storage`, seeded with `orders` */
+export const createLocalCustomerHistory = (
+  orders: { contact: CustomerContact; date: Date }[] = [],
+  storage: Storage | undefined = defaultStorage(),
+  storageKey = 'customer-orders'
+): CustomerHistoryRepository => {
+  const seed: StoredOrder[] = orders.map(({ contact, date }) => ({ keys: contactKeys(contact), date: date.toISOString() }));
+  const { load, save } = createJsonStore<StoredOrder[]>(storage, storageKey, []);
+
+  return {
+    findByContact: async (contact) => {
+      const keys = contactKeys(contact);
+      if (keys.length === 0) {
+        return undefined;
+      }
+
+      const dates = [...seed, ...load()]
+        .filter(order => order.keys.some(key => keys.includes(key)))
+        .map(order => new Date(order.date))
+        .sort((a, b) => a.getTime() - b.getTime());
+
+      return {
+        customerKey: normalizeEmail(contact.email) || normalizePhone(contact.phone),
+        orderCount: dates.length,
+        firstOrderAt: dates[0],
+        lastOrderAt: dates[dates.length - 1]
+      };
+    },
+    recordOrder: async (contact, date) => {
+      save([...load(), { keys: contactKeys(contact), date: date.toISOString() }]);
+    }
+  };
+};
@@ -0,0 +1,140 @@
+export type RoundingMode = 'half_up' | 'half_even';
+
+export interface CurrencyDefinition {
+  code: string;
+  symbol: string;
+  /** Number of digits after the decimal point (2 for cents, 8 for satoshi) */
+  minorUnits: number;
+  rounding: RoundingMode;
+  /** Converted prices are rounded to a multiple of this many major units, e.g. 100 for RUB */
+  priceStep?: number;
+}
+
+export const currencies: Record<string, CurrencyDefinition> = {
+  EUR: { code: 'EUR', symbol: '€', minorUnits: 2, rounding: 'half_up' },
+  RUB: { code: 'RUB', symbol: '₽', minorUnits: 2, rounding: 'half_up', priceStep: 100 },
+  USD: { code: 'USD', symbol: '$', minorUnits: 2, rounding: 'half_up' },
+  BTC: { code: 'BTC', symbol: '₿', minorUnits: 8, rounding: 'half_even' },
+  ETH: { code: 'ETH', symbol: 'Ξ', minorUnits: 6, rounding: 'half_even' },
+  USDT: { code: 'USDT', symbol: '₮', minorUnits: 2, rounding: 'half_up' }
+};
+
+/** Amount in minor units (cents, kopecks, satoshi) — always an integer */
+export interface Money {
+  amount: number;
+  currency: string;
+}
+
+export const getCurrency = (code: string): CurrencyDefinition => {
+  const currency = currencies[code];
+  if (!currency) {
+    throw new Error(`Unknown currency: ${code}`);
+  }
+  return currency;
+};
+
+export const roundAmount = (value: number, mode: RoundingMode): number => {
+  const floor = Math.floor(value);
+  const diff = value - floor;
+  // Tolerate float noise such as 2.4999999999 coming from rate multiplication
+  const epsilon = 1e-9;
+
+  if (Math.abs(diff - 0.5) < epsilon) {
+    if (mode === 'half_even') {
+      return floor % 2 === 0 ? floor : floor + 1;
+    }
+    return floor + 1;
+  }
+  return diff > 0.5 ? floor + 1 : floor;
+};
+
+const assertSameCurrency = (a: Money, b: Money) => {
+  if (a.currency !== b.currency) {
+    throw new Error(`Currency mismatch: ${a.currency} and ${b.currency}`);
+  }
+};
+
+export const fromMinor = (amount: number, currency: string): Money => ({
+  amount: roundAmount(amount, getCurrency(currency).rounding),
+  currency
+});
+
+/** Creates Money from a major-unit amount, e.g. `money(100, 'EUR')` is 100.00€ */
+export const money = (major: number, currency: string): Money =>
+  fromMinor(major * 10 ** getCurrency(currency).minorUnits, currency);
+
+export const zero = (currency: string): Money => ({ amount: 0, currency });
+
+export const add = (a: Money, b: Money): Money => {
+  assertSameCurrency(a, b);
+  return { amount: a.amount + b.amount, currency: a.currency };
+};
+
+export const subtract = (a: Money, b: Money): Money => {
+  assertSameCurrency(a, b);
+  return { amount: a.amount - b.amount, currency: a.currency };
+};
+
+export const sum = (items: Money[], currency: string): Money =>
+  items.reduce(add, zero(currency));
+
+/** Multiplies by a factor and rounds with the currency's rounding policy */
+export const multiply = (value: Money, factor: number): Money =>
+  fromMinor(value.amount * factor, value.currency);
+
+/** Converts to another currency, `rate` being the price of one major unit of `value.currency` */
+export const convert = (value: Money, rate: number, currency: string): Money => {
+  const exponent = getCurrency(currency).minorUnits - getCurrency(value.currency).minorUnits;
+  return fromMinor(value.amount * rate * 10 ** exponent, currency);
+};
+
+/**
+ * Splits an amount proportionally to `weights` so that the parts add up to
+ * exactly the original amount. Leftover minor units go to the parts with the
+ * largest remainders.
+ */
+export const allocate = (value: Money, weights: number[]): Money[] => {
+  const totalWeight = weights.reduce((acc, weight) => acc + weight, 0);
+  if (totalWeight === 0) {
+    return weights.map(() => zero(value.currency));
+  }
+
+  const exact = weights.map(weight => (value.amount * weight) / totalWeight);
+  const parts = exact.map(share => Math.floor(share));
+  let leftover = value.amount - parts.reduce((acc, part) => acc + part, 0);
+
+  exact
+    .map((share, index) => ({ index, remainder: share - parts[index] }))
+    .sort((a, b) => b.remainder - a.remainder)
+    .forEach(({ index }) => {
+      if (leftover > 0) {
+        parts[index] += 1;
+        leftover -= 1;
+      }
+    });
+
+  return parts.map(amount => ({ amount, currency: value.currency }));
+};
+
+/** Rounds to the currency's price step; currencies without one are returned as is */
+export const roundToPriceStep = (value: Money): Money => {
+  const { priceStep, minorUnits, rounding } = getCurrency(value.currency);
+  if (!priceStep) {
+    return value;
+  }
+  const step = priceStep * 10 ** minorUnits;
+  return { amount: roundAmount(value.amount / step, rounding) * step, currency: value.currency };
+};
+
+export const toMajor = (value: Money): number =>
+  value.amount / 10 ** getCurrency(value.currency).minorUnits;
+
+export const isZero = (value: Money): boolean => value.amount === 0;
+
+/** Formats as `1100€` for whole amounts and `93.50€` otherwise */
+export const formatMoney = (value: Money, options: { withSymbol?: boolean } = {}): string => {
+  const { symbol, minorUnits } = getCurrency(value.currency);
+  const major = toMajor(value);
+  const text = Number.isInteger(major) ? String(major) : major.toFixed(minorUnits);
+  return options.withSymbol === false ? text : `${text}${symbol}`;
+};
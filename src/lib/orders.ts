@@ -0,0 +1,96 @@
+import type { Money } from './money';
+import type { Installment, ManagerAdjustments } from './pricing';
+import { createJsonStore, defaultStorage } from './storage';
+
+/** One payment against an order, covering one installment of its schedule */
+export interface OrderPayment {
+  installmentNumber: number;
+  method: string;
+  /** What was actually charged, in the currency of the payment method */
+  amount: Money;
+  paidAt: Date;
+}
+
+export interface Order {
+  id: string;
+  customerKey: string;
+  createdAt: Date;
+  total: Money;
+  /** Our part of the total, reported apart from the state fees we only pass on */
+  revenue: Money;
+  passThroughFees: Money;
+  /** Internal cost of the services and `revenue` minus it, for margin reporting */
+  cost: Money;
+  margin: Money;
+  /** Manager changes the order was sold with, reason codes and approval included */
+  adjustments?: ManagerAdjustments;
+  /** Quote the order was paid from */
+  quoteNumber?: string;
+  schedule: Installment[];
+  payments: OrderPayment[];
+}
+
+export interface OrderRepository {
+  createOrder: (order: Omit<Order, 'payments'>) => Promise<Order>;
+  findOrder: (orderId: string) => Promise<Order | undefined>;
+  recordPayment: (orderId: string, payment: OrderPayment) => Promise<Order>;
+}
+
+export const getOutstandingInstallments = (order: Order): Installment[] =>
+  order.schedule.filter(installment =>
+    !order.payments.some(payment => payment.installmentNumber === installment.number)
+  );
+
+interface StoredOrder extends Omit<Order, 'createdAt' | 'schedule' | 'payments'> {
+  createdAt: string;
+  schedule: (Omit<Installment, 'dueAt'> & { dueAt?: string })[];
+  payments: (Omit<OrderPayment, 'paidAt'> & { paidAt: string })[];
+}
+
+const serialize = (order: Order): StoredOrder => ({
+  ...order,
+  createdAt: order.createdAt.toISOString(),
+  schedule: order.schedule.map(installment => ({ ...installment, dueAt: installment.dueAt?.toISOString() })),
+  payments: order.payments.map(payment => ({ ...payment, paidAt: payment.paidAt.toISOString() }))
+});
+
+const deserialize = (order: StoredOrder): Order => ({
+  ...order,
+  createdAt: new Date(order.createdAt),
+  schedule: order.schedule.map(installment => ({
+    ...installment,
+    dueAt: installment.dueAt ? new Date(installment.dueAt) : undefined
+  })),
+  payments: order.payments.map(payment => ({ ...payment, paidAt: new Date(payment.paidAt) }))
+});
+
+/** Orders and their payments, persisted in `storage` */
+export const createLocalOrders = (
+  storage: Storage | undefined = defaultStorage(),
+  storageKey = 'orders'
+): OrderRepository => {
+  const { load, save } = createJsonStore<StoredOrder[]>(storage, storageKey, []);
+
+  const findOrder = async (orderId: string) => {
+    const stored = load().find(order => order.id === orderId);
+    return stored && deserialize(stored);
+  };
+
+  return {
+    createOrder: async (order) => {
+      const created: Order = { ...order, payments: [] };
+      save([...load(), serialize(created)]);
+      return created;
+    },
+    findOrder,
+    recordPayment: async (orderId, payment) => {
+      const order = await findOrder(orderId);
+      if (!order) {
+        throw new Error(`Unknown order: ${orderId}`);
+      }
+      const updated = { ...order, payments: [...order.payments, payment] };
+      save(load().map(stored => (stored.id === orderId ? serialize(updated) : stored)));
+      return updated;
+    }
+  };
+};
@@ -0,0 +1,89 @@
+import { multiply, subtract, sum, zero, type Money } from '../money';
+import { priceForApplicants } from './applicants';
+import { localizePrice } from './currency';
+import type {
+  AdjustmentApproval,
+  Applicants,
+  ApprovalPolicy,
+  DiscountRule,
+  ExchangeRates,
+  LineItemBase,
+  ManualDiscount,
+  ManualLineItem,
+  PriceOverride,
+  Service
+} from './types';
+
+/** Lines for the items a manager added outside the catalog, priced in the order currency */
+export const getManualLineItems = (
+  lines: ManualLineItem[],
+  currency: string,
+  rates?: ExchangeRates
+): LineItemBase[] =>
+  lines.map(line => {
+    const unitPrice = localizePrice(line.price, undefined, currency, rates);
+    return {
+      serviceId: line.id,
+      name: line.name,
+      unitPrice,
+      quantity: line.quantity,
+      dependentDiscountAmount: zero(currency),
+      packageDiscountAmount: zero(currency),
+      urgencySurchargeAmount: zero(currency),
+      manual: true,
+      amount: multiply(unitPrice, line.quantity)
+    };
+  });
+
+/**
+ * Reprices overridden lines at the negotiated unit price, keeping per-dependent
+ * reductions, and reports how much that took off the list price. Runs before
+ * packages and urgency, which then apply to the new price.
+ */
+export const applyOverrides = (
+  lineItems: LineItemBase[],
+  catalog: Service[],
+  overrides: PriceOverride[],
+  applicants: Applicants,
+  currency: string,
+  rates?: ExchangeRates
+): { lineItems: LineItemBase[]; reduction: Money } => {
+  const reductions: Money[] = [];
+  const overridden = lineItems.map(item => {
+    const override = overrides.find(candidate => candidate.serviceId === item.serviceId);
+    const service = catalog.find(candidate => candidate.id === item.serviceId);
+    if (!override || !service) {
+      return item;
+    }
+    const unitPrice = localizePrice(override.price, undefined, currency, rates);
+    const priced = priceForApplicants(service, unitPrice, applicants, item.quantity);
+    reductions.push(subtract(item.amount, priced.amount));
+    return { ...item, ...priced, unitPrice, listUnitPrice: item.unitPrice, overrideReason: override.reason };
+  });
+  return { lineItems: overridden, reduction: sum(reductions, currency) };
+};
+
+export const getManualDiscountRule = (discount: ManualDiscount): DiscountRule => ({
+  type: 'manual',
+  value: discount.rate,
+  description: 'Индивидуальная скидка',
+  stacking: 'additive'
+});
+
+/**
+ * An approval counts only if it was given by an approver role and covers the
+ * current reduction, so deepening the deal after sign-off asks for it again.
+ */
+export const evaluateApproval = (
+  policy: ApprovalPolicy | undefined,
+  reductionRate: number,
+  belowMinMargin: boolean,
+  approval?: AdjustmentApproval
+): { approvalRequired: boolean; approved: boolean } => ({
+  approvalRequired: Boolean(policy) && (reductionRate > policy.threshold || belowMinMargin),
+  approved: Boolean(
+    approval &&
+    policy?.approverRoles.includes(approval.role) &&
+    approval.upToRate >= reductionRate
+  )
+});
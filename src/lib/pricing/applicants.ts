@@ -0,0 +1,50 @@
+import { multiply, subtract, sum, zero, type Money } from '../money';
+import type { ApplicantType, Applicants, Service } from './types';
+
+export const singleApplicant: Applicants = { main: 1, spouse: 0, child: 0 };
+
+export const maxApplicants: Applicants = { main: 1, spouse: 1, child: 6 };
+
+/** Household members in billing order: main applicant, spouse, then children */
+export const listApplicants = (applicants: Applicants): ApplicantType[] => [
+  'main',
+  ...Array<ApplicantType>(Math.min(applicants.spouse, maxApplicants.spouse)).fill('spouse'),
+  ...Array<ApplicantType>(Math.min(applicants.child, maxApplicants.child)).fill('child')
+];
+
+export const countApplicants = (applicants: Applicants): number => listApplicants(applicants).length;
+
+/** Clamps the requested quantity of a service to what the household allows */
+export const getServiceQuantity = (service: Service, applicants: Applicants, requested?: number): number => {
+  if (service.billing !== 'per_person') {
+    return 1;
+  }
+  const household = countApplicants(applicants);
+  return Math.min(Math.max(Math.round(requested ?? household), 1), household);
+};
+
+/**
+ * Charges a `per_person` service for the first `quantity` household members,
+ * applying the service's per-dependent discount to each of them.
+ */
+export const priceForApplicants = (
+  service: Service,
+  price: Money,
+  applicants: Applicants,
+  quantity: number
+): { applicantTypes?: ApplicantType[]; amount: Money; dependentDiscountAmount: Money } => {
+  if (service.billing !== 'per_person') {
+    return { amount: price, dependentDiscountAmount: zero(price.currency) };
+  }
+
+  const applicantTypes = listApplicants(applicants).slice(0, quantity);
+  const amount = sum(
+    applicantTypes.map(type => multiply(price, 1 - (service.dependentDiscounts?.[type] ?? 0))),
+    price.currency
+  );
+  return {
+    applicantTypes,
+    amount,
+    dependentDiscountAmount: subtract(multiply(price, applicantTypes.length), amount)
+  };
+};
@@ -0,0 +1,292 @@
+import { money } from '../money';
+import { parseDiscountRules } from './rules';
+import type {
+  AdjustmentReasonOption,
+  ApprovalPolicy,
+  CostingPolicy,
+  DiscountRuleDefinition,
+  ExchangeRates,
+  PassThroughFee,
+  PaymentPlanOption,
+  PriceList,
+  PromoCode,
+  ReferralProgram,
+  Service,
+  ServicePackage
+} from './types';
+
+export const serviceCatalog: Service[] = [
+  {
+    id: '1',
+    name: 'NIF (Налоговый номер)',
+    description: 'Получение португальского налогового номера (NIF) - обязательный документ для всех резидентов и нерезидентов, ведущих деятельность в Португалии. Включает подачу документов, сопровождение процесса и получение готового NIF.',
+    price: money(100, 'EUR'),
+    localPrices: { RUB: money(9900, 'RUB') },
+    category: 'essential',
+    billing: 'per_person',
+    dependentDiscounts: { spouse: 0.2, child: 0.5 },
+    urgency: [{ withinDays: 3, rate: 0.2 }],
+    cost: { staffHours: 1.5 },
+    variants: [
+      {
+        id: 'standard',
+        name: 'Стандарт',
+        description: 'Подача заявления в порядке общей очереди.',
+        duration: '5–10 рабочих дней',
+        price: money(100, 'EUR'),
+        localPrices: { RUB: money(9900, 'RUB') }
+      },
+      {
+        id: 'express',
+        name: 'Экспресс',
+        description: 'Приоритетная подача и ежедневный контроль статуса в налоговой.',
+        duration: '48 часов',
+        price: money(180, 'EUR'),
+        localPrices: { RUB: money(17900, 'RUB') },
+        cost: { staffHours: 3 }
+      }
+    ]
+  },
+  {
+    id: '2',
+    name: 'Поддержка в посольстве',
+    description: 'Полное сопровождение при подаче документов в консульство/посольство Португалии. Включает предварительную запись, подготовку пакета документов, консультацию перед подачей и помощь в случае дополнительных запросов.',
+    price: money(300, 'EUR'),
+    localPrices: { RUB: money(29900, 'RUB'), USD: money(320, 'USD') },
+    category: 'essential',
+    cost: { staffHours: 4 },
+    // Appointments within two weeks mean chasing cancellations and extra consulate visits
+    urgency: [
+      { withinDays: 14, rate: 0.25 },
+      { withinDays: 7, rate: 0.5 }
+    ],
+    variants: [
+      {
+        id: 'standard',
+        name: 'Стандарт',
+        description: 'Подготовка пакета документов и консультации онлайн.',
+        duration: 'до записи в консульство',
+        price: money(300, 'EUR'),
+        localPrices: { RUB: money(29900, 'RUB'), USD: money(320, 'USD') }
+      },
+      {
+        id: 'premium',
+        name: 'Премиум',
+        description: 'Персональный менеджер, проверка каждого документа и сопровождение в день подачи.',
+        duration: 'до получения визы',
+        price: money(450, 'EUR'),
+        localPrices: { RUB: money(44900, 'RUB'), USD: money(480, 'USD') },
+        cost: { staffHours: 8 }
+      }
+    ]
+  },
+  {
+    id: '3',
+    name: 'NISS номер',
+    description: 'Получение номера социального страхования NISS (Número de Identificação da Segurança Social) - необходим для работы и получения социальных услуг в Португалии. Включает подачу заявления и получение готового номера.',
+    price: money(300, 'EUR'),
+    category: 'additional',
+    requires: ['1'],
+    billing: 'per_person',
+    dependentDiscounts: { child: 0.3 },
+    cost: { staffHours: 2 },
+    variants: [
+      {
+        id: 'standard',
+        name: 'Стандарт',
+        description: 'Подача заявления онлайн через Segurança Social Direta.',
+        duration: '2–4 недели',
+        price: money(300, 'EUR')
+      },
+      {
+        id: 'express',
+        name: 'Экспресс',
+        description: 'Личная подача в отделении Segurança Social с предварительной записью.',
+        duration: '5 рабочих дней',
+        price: money(420, 'EUR'),
+        cost: { staffHours: 4 }
+      }
+    ]
+  },
+  {
+    id: '4',
+    name: 'Открытие банковского счета',
+    description: 'Помощь в открытии банковского счета в португальском банке. Включает выбор оптимального банка, подготовку документов, сопровождение при визите в банк и получение банковских карт.',
+    price: money(400, 'EUR'),
+    category: 'premium',
+    requires: ['1'],
+    cost: { staffHours: 3, partnerFees: money(50, 'EUR') }
+  }
+];
+
+/** Internal valuation of the `cost` entries above; discounts stop where the margin would drop below `minMargin` */
+export const costing: CostingPolicy = {
+  staffHourlyCost: money(35, 'EUR'),
+  minMargin: 0.3
+};
+
+export const adjustmentReasons: AdjustmentReasonOption[] = [
+  { id: 'competitor_match', name: 'Цена конкурента' },
+  { id: 'repeat_customer', name: 'Постоянный клиент' },
+  { id: 'complex_case', name: 'Сложный случай' },
+  { id: 'goodwill', name: 'Компенсация за неудобства' },
+  { id: 'other', name: 'Другое' }
+];
+
+/** Managers may take up to 10% off the list price on their own; deeper deals go to a senior manager */
+export const approvalPolicy: ApprovalPolicy = {
+  threshold: 0.1,
+  approverRoles: ['senior_manager']
+};
+
+/** State fees collected with our services and passed on to the authorities as is */
+export const passThroughFees: PassThroughFee[] = [
+  {
+    id: 'consular-visa',
+    name: 'Консульский сбор за национальную визу',
+    amount: money(90, 'EUR'),
+    serviceIds: ['2'],
+    billing: 'per_person'
+  },
+  {
+    id: 'aima-residence',
+    name: 'Сбор AIMA за вид на жительство',
+    amount: money(133.4, 'EUR'),
+    serviceIds: ['2'],
+    billing: 'per_person'
+  }
+];
+
+/**
+ * Dated price changes on top of the base prices above. Add a new version
+ * instead of editing the catalog so that open quotes keep their prices.
+ */
+export const priceLists: PriceList[] = [
+  {
+    id: '2026-01',
+    version: 1,
+    effectiveFrom: '2026-01-01',
+    prices: {}
+  },
+  {
+    id: '2026-11',
+    version: 2,
+    effectiveFrom: '2026-11-01',
+    prices: {
+      '1': { variants: { standard: money(120, 'EUR'), express: money(200, 'EUR') } },
+      '4': { price: money(450, 'EUR') }
+    }
+  }
+];
+
+/** Price of one euro in each currency, served by the local rate provider */
+export const exchangeRates: ExchangeRates = {
+  EUR: 1,
+  RUB: 100,
+  USD: 1.08,
+  BTC: 0.000015,
+  ETH: 0.00042,
+  USDT: 1.08
+};
+
+/** Face values offered for gift vouchers bought through the wizard */
+export const giftVoucherAmounts = [money(100, 'EUR'), money(300, 'EUR'), money(500, 'EUR'), money(1100, 'EUR')];
+
+export const paymentPlans: PaymentPlanOption[] = [
+  {
+    id: 'full',
+    name: 'Сразу',
+    description: 'Полная оплата заказа',
+    plan: { type: 'full' }
+  },
+  {
+    id: 'deposit',
+    name: 'Предоплата 30%',
+    description: 'Остаток — в течение 30 дней',
+    plan: { type: 'deposit', share: 0.3, balanceDueDays: 30 }
+  },
+  {
+    id: 'installments',
+    name: '3 платежа',
+    description: 'Равными частями раз в месяц',
+    plan: { type: 'installments', count: 3, intervalDays: 30 }
+  },
+  {
+    id: 'per_service',
+    name: 'По услугам',
+    description: 'Каждая услуга оплачивается перед началом работы',
+    plan: { type: 'per_service' }
+  }
+];
+
+/** How long converted payment amounts stay valid before the order is re-priced */
+export const rateLockMinutes = 15;
+
+/** Cached rates older than this are fetched again */
+export const rateMaxAgeMinutes = 60;
+
+/** How long a started quote keeps the price list it was priced with */
+export const quoteValidityDays = 7;
+
+export const servicePackages: ServicePackage[] = [
+  {
+    id: 'start',
+    name: 'Стартовый пакет',
+    description: 'NIF и банковский счет — всё, чтобы начать жизнь в Португалии.',
+    serviceIds: ['1', '4'],
+    pricing: { type: 'fixed', price: money(450, 'EUR') }
+  },
+  {
+    id: 'full',
+    name: 'Полный переезд',
+    description: 'Все услуги от визы до банковского счета со скидкой 15%.',
+    serviceIds: ['1', '2', '3', '4'],
+    pricing: { type: 'percentage', value: 0.15 }
+  }
+];
+
+export const discountRules: DiscountRuleDefinition[] = parseDiscountRules([
+  {
+    id: 'first-order',
+    type: 'first_time',
+    description: 'Скидка 5% для новых клиентов',
+    stacking: 'best_of_group',
+    group: 'volume',
+    when: { type: 'compare', fact: 'customerOrderCount', op: '==', value: 0 },
+    then: { type: 'percent', value: 0.05 }
+  }
+]);
+
+export const discountCap = 0.2;
+
+export const promoCodes: PromoCode[] = [
+  {
+    code: 'DIGITAL2024',
+    description: 'скидка 10% на заказ',
+    discount: { type: 'percentage', value: 0.10 },
+    maxUsesPerCustomer: 1
+  },
+  {
+    code: 'BANK50',
+    description: '50€ на открытие банковского счета',
+    discount: { type: 'fixed', amount: money(50, 'EUR') },
+    serviceIds: ['4'],
+    validity: { end: '2027-01-01', timeZone: 'Europe/Lisbon' },
+    maxUses: 200
+  },
+  {
+    code: 'ESSENTIAL15',
+    description: 'скидка 15% на обязательные услуги при заказе от 400€',
+    discount: { type: 'percentage', value: 0.15 },
+    categories: ['essential'],
+    minSubtotal: money(400, 'EUR'),
+    stacking: 'best_of_group',
+    group: 'volume'
+  }
+];
+
+export const referralProgram: ReferralProgram = {
+  refereeDiscount: 0.05,
+  referrerCredit: money(50, 'EUR'),
+  stacking: 'additive'
+};
@@ -0,0 +1,35 @@
+import { add, multiply, zero, type Money } from '../money';
+import { convertMoney } from './currency';
+import type { CostingPolicy, ExchangeRates, LineItemBase, Service, ServiceCost, ServiceTier } from './types';
+
+/** The variant's cost if it has one, otherwise the service's */
+export const getServiceCost = (service: Service | undefined, variantId?: ServiceTier): ServiceCost | undefined =>
+  service?.variants?.find(candidate => candidate.id === variantId)?.cost ?? service?.cost;
+
+/** Staff time and partner fees of a line, times its quantity */
+export const getLineCost = (
+  item: LineItemBase,
+  cost: ServiceCost | undefined,
+  policy: CostingPolicy | undefined,
+  currency: string,
+  rates?: ExchangeRates
+): Money => {
+  if (!policy || !cost) {
+    return zero(currency);
+  }
+  const staff = multiply(convertMoney(policy.staffHourlyCost, currency, rates), cost.staffHours);
+  const partners = cost.partnerFees ? convertMoney(cost.partnerFees, currency, rates) : zero(currency);
+  return multiply(add(staff, partners), item.quantity);
+};
+
+/**
+ * Largest discount rate that still leaves `minMargin` of the discounted
+ * subtotal after costs: subtotal × (1 − rate) × (1 − minMargin) ≥ cost.
+ */
+export const getMarginFloorRate = (subtotal: Money, cost: Money, minMargin: number): number => {
+  if (subtotal.amount <= 0) {
+    return 1;
+  }
+  const minimumRevenue = cost.amount / (1 - minMargin);
+  return Math.min(1, Math.max(0, 1 - minimumRevenue / subtotal.amount));
+};
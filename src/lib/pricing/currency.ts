@@ -0,0 +1,42 @@
+import { convert, roundToPriceStep, type Money } from '../money';
+import type { ExchangeRates, LocalPrices, Service, ServicePackage } from './types';
+
+/** Converts between any two currencies listed in `rates` */
+export const convertMoney = (value: Money, currency: string, rates: ExchangeRates = {}): Money => {
+  if (value.currency === currency) {
+    return value;
+  }
+  const from = rates[value.currency];
+  const to = rates[currency];
+  if (!from || !to) {
+    throw new Error(`No exchange rate from ${value.currency} to ${currency}`);
+  }
+  return convert(value, to / from, currency);
+};
+
+/** The local price in `currency` if one is set, otherwise the converted one rounded to the currency's price step */
+export const localizePrice = (
+  price: Money,
+  localPrices: LocalPrices | undefined,
+  currency: string,
+  rates?: ExchangeRates
+): Money =>
+  localPrices?.[currency] ?? (price.currency === currency ? price : roundToPriceStep(convertMoney(price, currency, rates)));
+
+export const localizeCatalog = (catalog: Service[], currency: string, rates?: ExchangeRates): Service[] =>
+  catalog.map(service => ({
+    ...service,
+    price: localizePrice(service.price, service.localPrices, currency, rates),
+    variants: service.variants?.map(variant => ({
+      ...variant,
+      price: localizePrice(variant.price, variant.localPrices, currency, rates)
+    }))
+  }));
+
+export const localizePackages = (packages: ServicePackage[], currency: string, rates?: ExchangeRates): ServicePackage[] =>
+  packages.map(servicePackage => servicePackage.pricing.type === 'fixed'
+    ? {
+      ...servicePackage,
+      pricing: { type: 'fixed', price: localizePrice(servicePackage.pricing.price, undefined, currency, rates) }
+    }
+    : servicePackage);
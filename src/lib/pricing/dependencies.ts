@@ -0,0 +1,68 @@
+import type { Service } from './types';
+
+export interface DependencyViolation {
+  serviceId: string;
+  missing: string[];
+}
+
+export class InvalidSelectionError extends Error {
+  violations: DependencyViolation[];
+
+  constructor(violations: DependencyViolation[]) {
+    super(`Inconsistent selection: ${violations.map(v => `${v.serviceId} requires ${v.missing.join(', ')}`).join('; ')}`);
+    this.name = 'InvalidSelectionError';
+    this.violations = violations;
+  }
+}
+
+const findService = (catalog: Service[], id: string) => catalog.find(service => service.id === id);
+
+/** All prerequisites of a service, transitively, nearest first */
+export const getPrerequisites = (catalog: Service[], id: string): string[] => {
+  const result: string[] = [];
+  const queue = [...(findService(catalog, id)?.requires ?? [])];
+
+  while (queue.length > 0) {
+    const next = queue.shift()!;
+    if (next === id || result.includes(next)) {
+      continue;
+    }
+    result.push(next);
+    queue.push(...(findService(catalog, next)?.requires ?? []));
+  }
+
+  return result;
+};
+
+/** Selected services that directly or transitively require `id` */
+export const getDependents = (catalog: Service[], selection: string[], id: string): string[] =>
+  selection.filter(selectedId => selectedId !== id && getPrerequisites(catalog, selectedId).includes(id));
+
+export const getMissingPrerequisites = (catalog: Service[], selection: string[], id: string): string[] =>
+  getPrerequisites(catalog, id).filter(prerequisite => !selection.includes(prerequisite));
+
+export const findDependencyViolations = (catalog: Service[], selection: string[]): DependencyViolation[] =>
+  selection
+    .map(serviceId => ({
+      serviceId,
+      missing: findService(catalog, serviceId)
+        ? getMissingPrerequisites(catalog, selection, serviceId)
+        : [serviceId]
+    }))
+    .filter(violation => violation.missing.length > 0);
+
+/** Selects a service together with its missing prerequisites */
+export const selectWithPrerequisites = (catalog: Service[], selection: string[], id: string): string[] =>
+  Array.from(new Set([...selection, ...getMissingPrerequisites(catalog, selection, id), id]));
+
+/** Drops services missing from the catalog and adds whatever prerequisites the rest lack */
+export const repairSelection = (catalog: Service[], selection: string[]): string[] =>
+  selection
+    .filter(id => findService(catalog, id))
+    .reduce((repaired, id) => selectWithPrerequisites(catalog, repaired, id), [] as string[]);
+
+/** Deselects a service together with everything that depends on it */
+export const deselectWithDependents = (catalog: Service[], selection: string[], id: string): string[] => {
+  const removed = [id, ...getDependents(catalog, selection, id)];
+  return selection.filter(selectedId => !removed.includes(selectedId));
+};
@@ -0,0 +1,112 @@
+import type {
+  DiscountRule,
+  SupersededDiscount,
+  SupersededReason
+} from './types';
+
+export interface DiscountContribution {
+  rule: DiscountRule;
+  /** Part of the combined rate this rule is responsible for */
+  share: number;
+}
+
+export interface DiscountResolution {
+  rate: number;
+  capped: boolean;
+  contributions: DiscountContribution[];
+  superseded: SupersededDiscount[];
+}
+
+const supersede = (rule: DiscountRule, reason: SupersededReason, winners: DiscountRule[]): SupersededDiscount => ({
+  type: rule.type,
+  value: rule.value,
+  description: rule.description,
+  reason,
+  supersededBy: winners.map(winner => winner.description).join(' + ')
+});
+
+const byValueDesc = (a: DiscountRule, b: DiscountRule) => b.value - a.value;
+
+// Share of the subtotal taken by each rule, in application order
+const stackRates = (rules: DiscountRule[]) => {
+  const additive = rules.filter(rule => rule.stacking !== 'multiplicative');
+  const multiplicative = rules.filter(rule => rule.stacking === 'multiplicative');
+
+  const shares = new Map<DiscountRule, number>();
+  additive.forEach(rule => shares.set(rule, rule.value));
+
+  let remaining = Math.max(0, 1 - additive.reduce((sum, rule) => sum + rule.value, 0));
+  multiplicative.forEach(rule => {
+    const share = remaining * rule.value;
+    shares.set(rule, share);
+    remaining -= share;
+  });
+
+  const rate = Array.from(shares.values()).reduce((sum, share) => sum + share, 0);
+  return { rate, shares };
+};
+
+/**
+ * Resolves which of the rules matching the order contribute to the discount
+ * according to their stacking policies and the global cap. Rules that match
+ * but do not contribute are reported as superseded together with the rule
+ * that beat them.
+ */
+export const resolveDiscounts = (matching: DiscountRule[], cap = 1): DiscountResolution => {
+  const superseded: SupersededDiscount[] = [];
+
+  const groupWinners = new Map<string, DiscountRule>();
+  matching
+    .filter(rule => rule.stacking === 'best_of_group')
+    .sort(byValueDesc)
+    .forEach(rule => {
+      const key = rule.group ?? rule.type;
+      const winner = groupWinners.get(key);
+      if (winner) {
+        superseded.push(supersede(rule, 'group', [winner]));
+      } else {
+        groupWinners.set(key, rule);
+      }
+    });
+
+  const stackable = matching.filter(rule =>
+    rule.stacking === 'additive' ||
+    rule.stacking === 'multiplicative' ||
+    (rule.stacking === 'best_of_group' && groupWinners.get(rule.group ?? rule.type) === rule)
+  );
+  const stacked = stackRates(stackable);
+
+  const [bestExclusive, ...otherExclusive] = matching
+    .filter(rule => rule.stacking === 'exclusive')
+    .sort(byValueDesc);
+
+  let contributing: Map<DiscountRule, number> = stacked.shares;
+  let rate = stacked.rate;
+
+  if (bestExclusive) {
+    if (bestExclusive.value >= stacked.rate) {
+      otherExclusive.forEach(rule => superseded.push(supersede(rule, 'exclusive', [bestExclusive])));
+      stackable.forEach(rule => superseded.push(supersede(rule, 'exclusive', [bestExclusive])));
+      contributing = new Map([[bestExclusive, bestExclusive.value]]);
+      rate = bestExclusive.value;
+    } else {
+      // They all lost to the stacked rules together, not to any single one of them
+      [bestExclusive, ...otherExclusive].forEach(rule => superseded.push(supersede(rule, 'not_best', stackable)));
+    }
+  }
+
+  const capped = rate > cap;
+  const scale = capped ? cap / rate : 1;
+
+  const contributions = Array.from(contributing.entries()).map(([rule, share]) => ({
+    rule,
+    share: share * scale
+  }));
+
+  return {
+    rate: Math.min(rate, cap),
+    capped,
+    contributions,
+    superseded
+  };
+};
@@ -0,0 +1,271 @@
+import { add, allocate, multiply, subtract, sum, zero } from '../money';
+import { applyOverrides, evaluateApproval, getManualDiscountRule, getManualLineItems } from './adjustments';
+import { getServiceQuantity, priceForApplicants, singleApplicant } from './applicants';
+import { getLineCost, getMarginFloorRate, getServiceCost } from './costs';
+import { convertMoney, localizeCatalog, localizePackages } from './currency';
+import { InvalidSelectionError, findDependencyViolations } from './dependencies';
+import { resolveDiscounts } from './discounts';
+import { getPassThroughFees } from './fees';
+import { applyPackage, findPackage } from './packages';
+import { buildPaymentSchedule } from './paymentPlans';
+import { applyPriceList, resolvePriceList } from './priceLists';
+import { evaluatePromoCode } from './promo';
+import { evaluateReferral } from './referral';
+import { evaluateDiscountRules } from './rules';
+import { evaluateVoucher } from './voucher';
+import { applyTax } from './tax';
+import { applyUrgency } from './urgency';
+import { daysUntil, getWindowExpiry } from './validity';
+import { resolveVariant } from './variants';
+import type {
+  AppliedDiscount,
+  DiscountContext,
+  LineItemBase,
+  PriceCalculation,
+  PricingInput,
+  SupersededDiscount
+} from './types';
+
+export const calculatePrice = ({
+  catalog: baseCatalog,
+  selection,
+  variants = {},
+  applicants = singleApplicant,
+  quantities = {},
+  packages: basePackages = [],
+  packageId,
+  customer,
+  customerHistory,
+  date,
+  discountRules,
+  discountCap,
+  priceLists = [],
+  priceLock,
+  promoCodes,
+  referralProgram,
+  referral: referralLookup,
+  availableCredit,
+  voucher: voucherLookup,
+  currency = 'EUR',
+  exchangeRates,
+  paymentPlan = { type: 'full' },
+  passThroughFees = [],
+  targetDate,
+  costing,
+  adjustments,
+  approvalPolicy
+}: PricingInput): PriceCalculation => {
+  const priceList = resolvePriceList(priceLists, date, priceLock);
+  const listedCatalog = priceList
+    ? applyPriceList(baseCatalog, priceLists.find(candidate => candidate.id === priceList.id))
+    : baseCatalog;
+  const catalog = localizeCatalog(listedCatalog, currency, exchangeRates);
+  const packages = localizePackages(basePackages, currency, exchangeRates);
+
+  const violations = findDependencyViolations(catalog, selection);
+  if (violations.length > 0) {
+    throw new InvalidSelectionError(violations);
+  }
+
+  const selectedServices = catalog.filter(service => selection.includes(service.id));
+
+  const serviceItems: LineItemBase[] = selectedServices.map(service => {
+    const variant = resolveVariant(service, variants[service.id]);
+    const price = variant ? variant.price : service.price;
+    const quantity = getServiceQuantity(service, applicants, quantities[service.id]);
+    return {
+      serviceId: service.id,
+      name: service.name,
+      variantId: variant?.id,
+      variantName: variant?.name,
+      unitPrice: price,
+      quantity,
+      ...priceForApplicants(service, price, applicants, quantity),
+      packageDiscountAmount: zero(currency),
+      urgencySurchargeAmount: zero(currency)
+    };
+  });
+
+  // Overrides left behind by deselected services neither reprice anything nor count as repricing
+  const overrides = (adjustments?.overrides ?? []).filter(override => selection.includes(override.serviceId));
+  const overridden = adjustments
+    ? applyOverrides(serviceItems, catalog, overrides, applicants, currency, exchangeRates)
+    : undefined;
+  const listedItems = overridden?.lineItems ?? serviceItems;
+
+  const packaged = packageId
+    ? applyPackage(findPackage(packages, packageId), catalog, listedItems, currency)
+    : undefined;
+  const urgent = targetDate
+    ? applyUrgency(packaged ? packaged.lineItems : listedItems, catalog, targetDate, daysUntil(targetDate, date))
+    : undefined;
+  const manualItems = adjustments ? getManualLineItems(adjustments.lines, currency, exchangeRates) : [];
+  const baseItems = [...(urgent?.lineItems ?? packaged?.lineItems ?? listedItems), ...manualItems];
+
+  const subtotal = sum(baseItems.map(item => item.amount), currency);
+
+  const lineCosts = baseItems.map(item => getLineCost(
+    item,
+    item.manual
+      ? adjustments.lines.find(line => line.id === item.serviceId)?.cost
+      : getServiceCost(baseCatalog.find(service => service.id === item.serviceId), item.variantId),
+    costing,
+    currency,
+    exchangeRates
+  ));
+  const cost = sum(lineCosts, currency);
+  // Ad-hoc lines have no cost anyone vouches for, so the margin floor and check only look at catalog lines
+  const catalogIndexes = baseItems.flatMap((item, index) => (item.manual ? [] : [index]));
+  const catalogSubtotal = sum(catalogIndexes.map(index => baseItems[index].amount), currency);
+  const catalogCost = sum(catalogIndexes.map(index => lineCosts[index]), currency);
+
+  const context: DiscountContext = {
+    catalog,
+    selectedServices,
+    applicants,
+    customer,
+    customerHistory,
+    date,
+    lineItems: baseItems,
+    subtotal,
+    exchangeRates
+  };
+
+  const promo = promoCodes && customer.promoCode.trim()
+    ? evaluatePromoCode(promoCodes, customer.promoCode, {
+      catalog,
+      lineItems: baseItems,
+      subtotal,
+      customer,
+      date,
+      exchangeRates
+    })
+    : undefined;
+  const referral = referralProgram && referralLookup && referralLookup.code.trim()
+    ? evaluateReferral(referralProgram, referralLookup.code, referralLookup.found, customer, customerHistory)
+    : undefined;
+  const manualRule = adjustments?.discount && adjustments.discount.rate > 0
+    ? getManualDiscountRule(adjustments.discount)
+    : undefined;
+  const rules = [promo?.rule, referral?.rule, manualRule].reduce(
+    (all, rule) => (rule ? [...all, rule] : all),
+    evaluateDiscountRules(discountRules, context)
+  );
+
+  // A manager's discount comes on top of the public cap, but none may eat into the minimum margin
+  const cap = Math.min(1, (discountCap ?? 1) + (manualRule?.value ?? 0));
+  const floorRate = costing ? getMarginFloorRate(catalogSubtotal, catalogCost, costing.minMargin) : 1;
+  const resolution = resolveDiscounts(rules, Math.min(cap, floorRate));
+  const marginFloorApplied = resolution.capped && floorRate < cap;
+
+  // Rules the floor left nothing of are reported as superseded rather than as zero amounts
+  const floorCut = marginFloorApplied
+    ? resolution.contributions.filter(({ share }) => multiply(subtotal, share).amount === 0)
+    : [];
+  const contributions = resolution.contributions.filter(contribution => !floorCut.includes(contribution));
+  const superseded: SupersededDiscount[] = [
+    ...resolution.superseded,
+    ...floorCut.map(({ rule }) => ({
+      type: rule.type,
+      value: rule.value,
+      description: rule.description,
+      reason: 'margin_floor' as const
+    }))
+  ];
+
+  const discount = resolution.rate;
+  const discountAmount = multiply(subtotal, discount);
+  const netTotal = subtract(subtotal, discountAmount);
+
+  const taxed = applyTax(baseItems, discountAmount, customer);
+  const { tax } = taxed;
+  const lineItems = taxed.lineItems.map((item, index) => ({
+    ...item,
+    cost: lineCosts[index],
+    margin: subtract(item.netAmount, lineCosts[index])
+  }));
+  const margin = subtract(netTotal, cost);
+
+  // State fees are added after discounts and tax so neither ever touches them
+  const fees = getPassThroughFees(passThroughFees, selectedServices, applicants, currency, exchangeRates);
+  const feesTotal = sum(fees.map(fee => fee.amount), currency);
+  const total = add(add(netTotal, tax.amount), feesTotal);
+
+  const credit = availableCredit && availableCredit.amount > 0
+    ? convertMoney(availableCredit, currency, exchangeRates)
+    : zero(currency);
+  const creditApplied = { amount: Math.min(credit.amount, total.amount), currency };
+
+  // Vouchers work like a payment: they are spent on whatever is left after discounts, tax and credit
+  const voucher = voucherLookup && voucherLookup.code.trim()
+    ? evaluateVoucher(voucherLookup.code, voucherLookup.balance)
+    : undefined;
+  const afterCredit = subtract(total, creditApplied);
+  const voucherBalance = voucher?.valid ? convertMoney(voucher.balance, currency, exchangeRates) : zero(currency);
+  const voucherApplied = { amount: Math.min(voucherBalance.amount, afterCredit.amount), currency };
+  const amountDue = subtract(afterCredit, voucherApplied);
+
+  // Split the rounded discount between the rules so the lines add up to the cent
+  const ruleAmounts = allocate(discountAmount, contributions.map(({ share }) => share));
+  const appliedDiscounts: AppliedDiscount[] = contributions.map(({ rule }, index) => ({
+    type: rule.type,
+    value: rule.value,
+    description: rule.description,
+    stacking: rule.stacking,
+    amount: ruleAmounts[index],
+    expiresAt: rule.validity ? getWindowExpiry(rule.validity, date) : undefined
+  }));
+
+  const manualDiscountAmount = sum(
+    appliedDiscounts.filter(discount => discount.type === 'manual').map(discount => discount.amount),
+    currency
+  );
+  const reduction = add(overridden?.reduction ?? zero(currency), manualDiscountAmount);
+  const listTotal = add(subtotal, overridden?.reduction ?? zero(currency));
+  const reductionRate = listTotal.amount > 0 ? reduction.amount / listTotal.amount : 0;
+  const marginRate = netTotal.amount > 0 ? margin.amount / netTotal.amount : 0;
+  const catalogNet = sum(catalogIndexes.map(index => lineItems[index].netAmount), currency);
+  const repriced = manualItems.length > 0 || overrides.length > 0;
+  const belowMinMargin = Boolean(costing) && repriced &&
+    catalogNet.amount * (1 - costing.minMargin) < catalogCost.amount;
+
+  return {
+    lineItems,
+    selectedServices,
+    package: packaged?.applied,
+    date,
+    priceList,
+    urgency: urgent?.applied,
+    adjustments: adjustments && {
+      reduction,
+      reductionRate,
+      belowMinMargin,
+      ...evaluateApproval(approvalPolicy, reductionRate, belowMinMargin, adjustments.approval)
+    },
+    customerHistory,
+    promo,
+    referral,
+    voucher,
+    appliedDiscounts,
+    supersededDiscounts: superseded,
+    currency,
+    subtotal,
+    discount,
+    discountCapped: resolution.capped,
+    discountAmount,
+    netTotal,
+    tax,
+    fees,
+    feesTotal,
+    revenue: netTotal,
+    cost,
+    margin,
+    marginRate,
+    marginFloorApplied,
+    total,
+    creditApplied,
+    voucherApplied,
+    amountDue,
+    schedule: buildPaymentSchedule(paymentPlan, amountDue, lineItems, fees, date)
+  };
+};
@@ -0,0 +1,25 @@
+import { multiply } from '../money';
+import { countApplicants } from './applicants';
+import { convertMoney } from './currency';
+import type { Applicants, ExchangeRates, PassThroughFee, PassThroughLineItem, Service } from './types';
+
+/** Fees due for the selected services, converted at the exact rate without price-step rounding */
+export const getPassThroughFees = (
+  fees: PassThroughFee[],
+  selectedServices: Service[],
+  applicants: Applicants,
+  currency: string,
+  rates?: ExchangeRates
+): PassThroughLineItem[] =>
+  fees.reduce<PassThroughLineItem[]>((items, fee) => {
+    const service = selectedServices.find(selected => fee.serviceIds.includes(selected.id));
+    if (!service) {
+      return items;
+    }
+    const unitAmount = convertMoney(fee.amount, currency, rates);
+    const quantity = fee.billing === 'per_person' ? countApplicants(applicants) : 1;
+    return [
+      ...items,
+      { feeId: fee.id, name: fee.name, serviceId: service.id, unitAmount, quantity, amount: multiply(unitAmount, quantity) }
+    ];
+  }, []);
@@ -0,0 +1,86 @@
+export * from './types';
+export { calculatePrice } from './engine';
+export {
+  countApplicants,
+  getServiceQuantity,
+  listApplicants,
+  maxApplicants,
+  priceForApplicants,
+  singleApplicant
+} from './applicants';
+export { applyTax, isReverseCharge, isValidEuVatNumber, ivaRates, parseEuVatNumber } from './tax';
+export {
+  InvalidSelectionError,
+  deselectWithDependents,
+  findDependencyViolations,
+  getDependents,
+  getMissingPrerequisites,
+  getPrerequisites,
+  repairSelection,
+  selectWithPrerequisites,
+  type DependencyViolation
+} from './dependencies';
+export {
+  daysUntil,
+  defaultTimeZone,
+  getWindowExpiry,
+  isWithinWindow,
+  systemClock,
+  zonedTimeToDate,
+  type Clock
+} from './validity';
+export { getServicePrice, resolveVariant } from './variants';
+export {
+  createLocalPromoCodeStore,
+  evaluatePromoCode,
+  getCustomerKey,
+  normalizePromoCode,
+  type PromoEvaluationContext
+} from './promo';
+export {
+  applyPriceList,
+  createLocalPriceLockStore,
+  createPriceLock,
+  getEffectivePriceList,
+  isPriceLockValid,
+  resolvePriceList,
+  type PriceLockStore
+} from './priceLists';
+export { getLineCost, getMarginFloorRate, getServiceCost } from './costs';
+export { applyOverrides, evaluateApproval, getManualDiscountRule, getManualLineItems } from './adjustments';
+export { convertMoney, localizeCatalog, localizePackages, localizePrice } from './currency';
+export { getPassThroughFees } from './fees';
+export { findDiscountNudges } from './nudges';
+export { buildPaymentSchedule } from './paymentPlans';
+export { applyUrgency, getUrgencyRate } from './urgency';
+export { evaluateReferral } from './referral';
+export { evaluateVoucher } from './voucher';
+export {
+  discountRuleSchema,
+  evaluateCondition,
+  evaluateDiscountRules,
+  parseDiscountRules,
+  ruleActionSchema,
+  ruleConditionSchema
+} from './rules';
+export { applyPackage, detectPackage, findPackage } from './packages';
+export { resolveDiscounts, type DiscountContribution, type DiscountResolution } from './discounts';
+export {
+  serviceCatalog,
+  servicePackages,
+  priceLists,
+  quoteValidityDays,
+  exchangeRates,
+  rateLockMinutes,
+  rateMaxAgeMinutes,
+  paymentPlans,
+  giftVoucherAmounts,
+  passThroughFees,
+  discountRules,
+  discountCap,
+  costing,
+  adjustmentReasons,
+  approvalPolicy,
+  promoCodes,
+  referralProgram
+} from './catalog';
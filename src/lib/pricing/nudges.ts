@@ -0,0 +1,61 @@
+import { subtract, sum } from '../money';
+import { selectWithPrerequisites } from './dependencies';
+import { calculatePrice } from './engine';
+import type { DiscountNudge, PriceCalculation, PricingInput } from './types';
+
+const gainedAmount = (nudge: DiscountNudge) =>
+  sum(
+    [...nudge.unlocked.map(discount => discount.amount), ...(nudge.package ? [nudge.package.savings] : [])],
+    nudge.totalChange.currency
+  ).amount;
+
+/**
+ * Discounts the customer could unlock by adding one more service (with its
+ * prerequisites), or by adding what a package they have started is missing,
+ * found by pricing each such selection. Biggest saving first, then the
+ * cheapest addition.
+ */
+export const findDiscountNudges = (
+  input: PricingInput,
+  current: PriceCalculation,
+  limit = 2
+): DiscountNudge[] => {
+  const applied = new Set(current.appliedDiscounts.map(discount => discount.description));
+
+  const nudge = (selection: string[], packageId = input.packageId): DiscountNudge => {
+    const hypothetical = calculatePrice({ ...input, selection, packageId });
+    return {
+      services: input.catalog.filter(candidate =>
+        selection.includes(candidate.id) && !input.selection.includes(candidate.id)
+      ),
+      selection,
+      unlocked: hypothetical.appliedDiscounts.filter(discount => !applied.has(discount.description)),
+      package: packageId !== input.packageId ? hypothetical.package : undefined,
+      totalChange: subtract(hypothetical.total, current.total)
+    };
+  };
+
+  const serviceNudges = input.catalog
+    .filter(service => !input.selection.includes(service.id))
+    .map(service => nudge(selectWithPrerequisites(input.catalog, input.selection, service.id)));
+
+  // Only packages the selection has started on; a complete one is offered as a switch instead
+  const packageNudges = (input.packages ?? [])
+    .filter(servicePackage =>
+      servicePackage.id !== input.packageId &&
+      servicePackage.serviceIds.some(id => input.selection.includes(id)) &&
+      servicePackage.serviceIds.some(id => !input.selection.includes(id))
+    )
+    .map(servicePackage => nudge(
+      servicePackage.serviceIds.reduce(
+        (selection, id) => selectWithPrerequisites(input.catalog, selection, id),
+        input.selection
+      ),
+      servicePackage.id
+    ));
+
+  return [...packageNudges, ...serviceNudges]
+    .filter(candidate => candidate.unlocked.length > 0 || (candidate.package?.savings.amount ?? 0) > 0)
+    .sort((a, b) => gainedAmount(b) - gainedAmount(a) || a.totalChange.amount - b.totalChange.amount)
+    .slice(0, limit);
+};
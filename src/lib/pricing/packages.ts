@@ -0,0 +1,78 @@
+import { allocate, multiply, subtract, sum, zero } from '../money';
+import { getServicePrice } from './variants';
+import type { AppliedPackage, LineItemBase, Service, ServicePackage } from './types';
+
+/** Returns the package whose services are exactly the selected ones */
+export const detectPackage = (packages: ServicePackage[], selection: string[]): ServicePackage | undefined =>
+  packages.find(servicePackage =>
+    servicePackage.serviceIds.length === selection.length &&
+    servicePackage.serviceIds.every(id => selection.includes(id))
+  );
+
+export const findPackage = (packages: ServicePackage[], id: string): ServicePackage => {
+  const servicePackage = packages.find(candidate => candidate.id === id);
+  if (!servicePackage) {
+    throw new Error(`Unknown package: ${id}`);
+  }
+  return servicePackage;
+};
+
+/**
+ * Deducts the package saving from its lines, spread proportionally so every
+ * line keeps reconciling to the cent.
+ */
+export const applyPackage = (
+  servicePackage: ServicePackage,
+  catalog: Service[],
+  lineItems: LineItemBase[],
+  currency: string
+): { lineItems: LineItemBase[]; applied: AppliedPackage } => {
+  const missing = servicePackage.serviceIds.filter(id => !lineItems.some(item => item.serviceId === id));
+  if (missing.length > 0) {
+    throw new Error(`Package ${servicePackage.id} is missing services: ${missing.join(', ')}`);
+  }
+
+  const packageItems = lineItems.filter(item => servicePackage.serviceIds.includes(item.serviceId));
+  const listAmount = sum(packageItems.map(item => item.amount), currency);
+
+  let savings = zero(currency);
+  if (servicePackage.pricing.type === 'percentage') {
+    savings = multiply(listAmount, servicePackage.pricing.value);
+  } else {
+    const basePrice = sum(
+      catalog
+        .filter(service => servicePackage.serviceIds.includes(service.id))
+        .map(service => getServicePrice(service)),
+      currency
+    );
+    savings = subtract(basePrice, servicePackage.pricing.price);
+    if (savings.amount < 0) {
+      savings = zero(currency);
+    }
+  }
+
+  const shares = allocate(savings, packageItems.map(item => item.amount.amount));
+  const discountedItems = lineItems.map(item => {
+    const index = packageItems.indexOf(item);
+    if (index === -1) {
+      return item;
+    }
+    return {
+      ...item,
+      packageId: servicePackage.id,
+      packageDiscountAmount: shares[index],
+      amount: subtract(item.amount, shares[index])
+    };
+  });
+
+  return {
+    lineItems: discountedItems,
+    applied: {
+      id: servicePackage.id,
+      name: servicePackage.name,
+      listAmount,
+      amount: subtract(listAmount, savings),
+      savings
+    }
+  };
+};
@@ -0,0 +1,58 @@
+import { allocate, multiply, subtract, type Money } from '../money';
+import type { Installment, PassThroughLineItem, PaymentPlan, PriceLineItem } from './types';
+
+const dayMs = 24 * 60 * 60 * 1000;
+
+const addDays = (date: Date, days: number) => new Date(date.getTime() + days * dayMs);
+
+/**
+ * Splits the amount due into payments according to the plan. The first
+ * installment is always due at `date`, so it is what the customer pays now.
+ */
+export const buildPaymentSchedule = (
+  plan: PaymentPlan,
+  amountDue: Money,
+  lineItems: PriceLineItem[],
+  fees: PassThroughLineItem[],
+  date: Date
+): Installment[] => {
+  switch (plan.type) {
+    case 'full':
+      return [{ number: 1, description: 'Полная оплата', amount: amountDue, dueAt: date }];
+    case 'deposit': {
+      const deposit = multiply(amountDue, plan.share);
+      return [
+        { number: 1, description: `Предоплата ${Math.round(plan.share * 100)}%`, amount: deposit, dueAt: date },
+        {
+          number: 2,
+          description: 'Остаток',
+          amount: subtract(amountDue, deposit),
+          dueAt: addDays(date, plan.balanceDueDays)
+        }
+      ];
+    }
+    case 'installments':
+      return allocate(amountDue, Array.from({ length: plan.count }, () => 1)).map((amount, index) => ({
+        number: index + 1,
+        description: `Платеж ${index + 1} из ${plan.count}`,
+        amount,
+        dueAt: addDays(date, index * plan.intervalDays)
+      }));
+    case 'per_service':
+      if (lineItems.length === 0) {
+        return buildPaymentSchedule({ type: 'full' }, amountDue, lineItems, fees, date);
+      }
+      // Each service is paid with its state fees; credit and rounding are spread in proportion to the amounts
+      return allocate(amountDue, lineItems.map(item =>
+        fees
+          .filter(fee => fee.serviceId === item.serviceId)
+          .reduce((weight, fee) => weight + fee.amount.amount, item.grossAmount.amount)
+      )).map((amount, index) => ({
+        number: index + 1,
+        description: lineItems[index].name,
+        amount,
+        dueAt: index === 0 ? date : undefined,
+        serviceId: lineItems[index].serviceId
+      }));
+  }
+};
@@ -0,0 +1,79 @@
+import { createJsonStore, defaultStorage } from '../storage';
+import { zonedTimeToDate, defaultTimeZone } from './validity';
+import type { AppliedPriceList, PriceList, PriceLock, Service } from './types';
+
+const effectiveDate = (priceList: PriceList) => zonedTimeToDate(priceList.effectiveFrom, defaultTimeZone);
+
+/** The price list in force at `date`: the latest one that has already taken effect */
+export const getEffectivePriceList = (priceLists: PriceList[], date: Date): PriceList | undefined =>
+  [...priceLists]
+    .filter(priceList => effectiveDate(priceList) <= date)
+    .sort((a, b) => effectiveDate(b).getTime() - effectiveDate(a).getTime())[0];
+
+export const isPriceLockValid = (lock: PriceLock | undefined, date: Date): boolean =>
+  Boolean(lock && new Date(lock.expiresAt) > date);
+
+/**
+ * Picks the price list a quote is charged with: the locked one while the lock
+ * is valid, otherwise the one in force at `date`.
+ */
+export const resolvePriceList = (
+  priceLists: PriceList[],
+  date: Date,
+  lock?: PriceLock
+): AppliedPriceList | undefined => {
+  const locked = isPriceLockValid(lock, date)
+    ? priceLists.find(priceList => priceList.id === lock.priceListId)
+    : undefined;
+  const priceList = locked ?? getEffectivePriceList(priceLists, date);
+
+  if (!priceList) {
+    return undefined;
+  }
+  return {
+    id: priceList.id,
+    version: priceList.version,
+    effectiveFrom: priceList.effectiveFrom,
+    locked: Boolean(locked),
+    lockExpiresAt: locked ? new Date(lock.expiresAt) : undefined
+  };
+};
+
+/** Returns the catalog with the list's prices in place of the base ones */
+export const applyPriceList = (catalog: Service[], priceList: PriceList): Service[] =>
+  catalog.map(service => {
+    const entry = priceList.prices[service.id];
+    if (!entry) {
+      return service;
+    }
+    // Local prices set for the old price would be out of date, so a changed price drops them
+    const variants = service.variants?.map(variant => {
+      const price = entry.variants?.[variant.id];
+      return price ? { ...variant, price, localPrices: undefined } : variant;
+    });
+    return {
+      ...service,
+      // The headline price follows the default variant unless the list sets it explicitly
+      price: entry.price ?? variants?.[0]?.price ?? service.price,
+      localPrices: entry.price ? entry.localPrices : service.localPrices,
+      variants
+    };
+  });
+
+export const createPriceLock = (priceList: PriceList, date: Date, validityDays: number): PriceLock => ({
+  priceListId: priceList.id,
+  lockedAt: date.toISOString(),
+  expiresAt: new Date(date.getTime() + validityDays * 24 * 60 * 60 * 1000).toISOString()
+});
+
+export interface PriceLockStore {
+  load: () => PriceLock | undefined;
+  save: (lock: PriceLock) => void;
+  clear: () => void;
+}
+
+/** The customer's price lock in `storage`, so it survives a page reload */
+export const createLocalPriceLockStore = (
+  storage: Storage | undefined = defaultStorage(),
+  storageKey = 'price-lock'
+): PriceLockStore => createJsonStore<PriceLock | undefined>(storage, storageKey, undefined);
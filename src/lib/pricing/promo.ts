@@ -0,0 +1,147 @@
+import { formatMoney, sum, type Money } from '../money';
+import { createJsonStore, defaultStorage } from '../storage';
+import { convertMoney } from './currency';
+import { isWithinWindow } from './validity';
+import type {
+  CustomerContext,
+  ExchangeRates,
+  LineItemBase,
+  PromoCode,
+  PromoCodeResult,
+  PromoCodeStore,
+  PromoRejectionReason,
+  Service
+} from './types';
+
+export interface PromoEvaluationContext {
+  catalog: Service[];
+  lineItems: LineItemBase[];
+  subtotal: Money;
+  customer: CustomerContext;
+  date: Date;
+  exchangeRates?: ExchangeRates;
+}
+
+
+export const normalizePromoCode = (code: string) => code.trim().toUpperCase();
+
+/** Usage is tracked per customer by e-mail */
+export const getCustomerKey = (customer: Pick<CustomerContext, 'email'>) =>
+  customer.email.trim().toLowerCase() || undefined;
+
+const formatDate = (value: string) =>
+  new Date(`${value.slice(0, 10)}T12:00:00Z`).toLocaleDateString('ru-RU');
+
+const reject = (code: string, reason: PromoRejectionReason, message: string): PromoCodeResult => ({
+  code,
+  valid: false,
+  reason,
+  message
+});
+
+/**
+ * Checks a promo code against the registry and the order, and converts a
+ * valid one into a discount rule expressed as a share of the order subtotal.
+ */
+export const evaluatePromoCode = (
+  store: PromoCodeStore,
+  rawCode: string,
+  { catalog, lineItems, subtotal, customer, date, exchangeRates }: PromoEvaluationContext
+): PromoCodeResult => {
+  const code = normalizePromoCode(rawCode);
+  const promo = store.find(code);
+
+  if (!promo) {
+    return reject(code, 'not_found', 'Такого промокода не существует');
+  }
+
+  const { validity } = promo;
+  if (validity?.start && !isWithinWindow({ start: validity.start, timeZone: validity.timeZone }, date)) {
+    return reject(code, 'not_started', `Промокод начнет действовать ${formatDate(validity.start)}`);
+  }
+  if (validity?.end && !isWithinWindow({ end: validity.end, timeZone: validity.timeZone }, date)) {
+    return reject(code, 'expired', `Срок действия промокода истек ${formatDate(validity.end)}`);
+  }
+  if (validity?.weekdays && !isWithinWindow({ weekdays: validity.weekdays, timeZone: validity.timeZone }, date)) {
+    return reject(code, 'wrong_weekday', 'Промокод не действует в этот день недели');
+  }
+
+  const usage = store.getUsage(code, getCustomerKey(customer));
+  if (promo.maxUses !== undefined && usage.total >= promo.maxUses) {
+    return reject(code, 'usage_limit', 'Лимит использований промокода исчерпан');
+  }
+  if (promo.maxUsesPerCustomer !== undefined && usage.customer >= promo.maxUsesPerCustomer) {
+    return reject(code, 'customer_limit', 'Вы уже использовали этот промокод');
+  }
+
+  const minSubtotal = promo.minSubtotal && convertMoney(promo.minSubtotal, subtotal.currency, exchangeRates);
+  if (minSubtotal && subtotal.amount < minSubtotal.amount) {
+    return reject(code, 'min_subtotal', `Промокод действует для заказов от ${formatMoney(minSubtotal)}`);
+  }
+
+  const isScoped = Boolean(promo.serviceIds?.length || promo.categories?.length);
+  const scopedItems = lineItems.filter(item => {
+    if (!isScoped) {
+      return true;
+    }
+    const category = catalog.find(service => service.id === item.serviceId)?.category;
+    return Boolean(promo.serviceIds?.includes(item.serviceId) || (category && promo.categories?.includes(category)));
+  });
+  if (scopedItems.length === 0 || subtotal.amount === 0) {
+    return reject(code, 'out_of_scope', 'Промокод не распространяется на выбранные услуги');
+  }
+
+  const scopedSubtotal = sum(scopedItems.map(item => item.amount), subtotal.currency);
+  const value = promo.discount.type === 'percentage'
+    ? (promo.discount.value * scopedSubtotal.amount) / subtotal.amount
+    : Math.min(convertMoney(promo.discount.amount, subtotal.currency, exchangeRates).amount, scopedSubtotal.amount)
+      / subtotal.amount;
+
+  return {
+    code,
+    valid: true,
+    message: promo.description,
+    rule: {
+      type: 'promo',
+      value,
+      description: `Промокод ${code}: ${promo.description}`,
+      stacking: promo.stacking ?? 'additive',
+      group: promo.group
+    }
+  };
+};
+
+interface StoredUsage {
+  total: number;
+  customers: Record<string, number>;
+}
+
+/** Promo code registry over a fixed list of codes, keeping redemption counts in `storage` */
+export const createLocalPromoCodeStore = (
+  codes: PromoCode[],
+  storage: Storage | undefined = defaultStorage(),
+  storageKey = 'promo-code-usage'
+): PromoCodeStore => {
+  const { load, save } = createJsonStore<Record<string, StoredUsage>>(storage, storageKey, {});
+
+  return {
+    find: (code) => codes.find(promo => normalizePromoCode(promo.code) === normalizePromoCode(code)),
+    getUsage: (code, customerKey) => {
+      const usage = load()[normalizePromoCode(code)];
+      return {
+        total: usage?.total ?? 0,
+        customer: customerKey ? usage?.customers[customerKey] ?? 0 : 0
+      };
+    },
+    recordUsage: (code, customerKey) => {
+      const all = load();
+      const key = normalizePromoCode(code);
+      const usage = all[key] ?? { total: 0, customers: {} };
+      usage.total += 1;
+      if (customerKey) {
+        usage.customers[customerKey] = (usage.customers[customerKey] ?? 0) + 1;
+      }
+      save({ ...all, [key]: usage });
+    }
+  };
+};
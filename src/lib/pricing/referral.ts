@@ -0,0 +1,41 @@
+import type { CustomerHistory } from '../customers';
+import { normalizeReferralCode, type ReferralCode } from '../referrals';
+import { getCustomerKey } from './promo';
+import type { CustomerContext, ReferralProgram, ReferralResult } from './types';
+
+/**
+ * Checks a looked-up referral code for the current customer. Referral
+ * discounts are for new customers only and a code can't be used by its owner.
+ */
+export const evaluateReferral = (
+  program: ReferralProgram,
+  rawCode: string,
+  referral: ReferralCode | undefined,
+  customer: CustomerContext,
+  customerHistory?: CustomerHistory
+): ReferralResult => {
+  const code = normalizeReferralCode(rawCode);
+
+  if (!referral) {
+    return { code, valid: false, message: 'Реферальный код не найден' };
+  }
+  if (referral.referrerKey === getCustomerKey(customer)) {
+    return { code, valid: false, message: 'Нельзя использовать собственный реферальный код' };
+  }
+  if (customerHistory && customerHistory.orderCount > 0) {
+    return { code, valid: false, message: 'Скидка по приглашению действует только на первый заказ' };
+  }
+
+  return {
+    code,
+    valid: true,
+    referrerKey: referral.referrerKey,
+    message: `Скидка ${Math.round(program.refereeDiscount * 100)}% по приглашению друга`,
+    rule: {
+      type: 'referral',
+      value: program.refereeDiscount,
+      description: 'Скидка по приглашению друга',
+      stacking: program.stacking
+    }
+  };
+};
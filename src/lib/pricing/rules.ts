@@ -0,0 +1,186 @@
+import { z } from 'zod';
+import { money, toMajor, type Money } from '../money';
+import { convertMoney } from './currency';
+import { countApplicants } from './applicants';
+import { isWithinWindow } from './validity';
+import type {
+  DiscountContext,
+  DiscountRule,
+  DiscountRuleDefinition,
+  RuleAction,
+  RuleCondition
+} from './types';
+
+// The app compiles without strictNullChecks, where zod infers every field as optional,
+// so schemas are asserted to the hand-written types they validate
+const validityWindowShape = {
+  start: z.string().regex(/^\d{4}-\d{2}-\d{2}(T\d{2}:\d{2})?$/).optional(),
+  end: z.string().regex(/^\d{4}-\d{2}-\d{2}(T\d{2}:\d{2})?$/).optional(),
+  weekdays: z.array(z.number().int().min(1).max(7)).optional(),
+  timeZone: z.string().optional()
+};
+
+export const ruleConditionSchema = z.lazy(() =>
+  z.discriminatedUnion('type', [
+    z.object({ type: z.literal('all'), conditions: z.array(ruleConditionSchema) }),
+    z.object({ type: z.literal('any'), conditions: z.array(ruleConditionSchema) }),
+    z.object({ type: z.literal('not'), condition: ruleConditionSchema }),
+    z.object({
+      type: z.literal('compare'),
+      fact: z.enum(['selectedCount', 'subtotal', 'applicantCount', 'customerOrderCount']),
+      op: z.enum(['==', '!=', '>', '>=', '<', '<=']),
+      value: z.number(),
+      currency: z.string().length(3).optional()
+    }),
+    z.object({ type: z.literal('allSelected') }),
+    z.object({
+      type: z.literal('selected'),
+      fact: z.enum(['service', 'category']),
+      values: z.array(z.string()).min(1),
+      match: z.enum(['any', 'all']).optional()
+    }),
+    z.object({ type: z.literal('promoCode'), equals: z.string().min(1) }),
+    z.object({ type: z.literal('dateRange'), ...validityWindowShape })
+  ])
+) as z.ZodType<RuleCondition>;
+
+export const ruleActionSchema = z.discriminatedUnion('type', [
+  z.object({ type: z.literal('percent'), value: z.number().gt(0).max(1) }),
+  z.object({ type: z.literal('fixed'), amount: z.number().positive(), currency: z.string().length(3) }),
+  z.object({ type: z.literal('freeItem'), serviceId: z.string().min(1) })
+]) as z.ZodType<RuleAction>;
+
+export const discountRuleSchema = z.object({
+  id: z.string().min(1),
+  type: z.enum(['bulk', 'promo', 'first_time', 'seasonal', 'referral']),
+  description: z.string().min(1),
+  stacking: z.enum(['exclusive', 'additive', 'multiplicative', 'best_of_group']),
+  group: z.string().optional(),
+  validity: z.object(validityWindowShape).optional(),
+  when: ruleConditionSchema.optional(),
+  then: ruleActionSchema
+}) as z.ZodType<DiscountRuleDefinition>;
+
+/** Validates stored rules, e.g. loaded from JSON; throws a ZodError describing every problem */
+export const parseDiscountRules = (input: unknown): DiscountRuleDefinition[] => {
+  const rules = z.array(discountRuleSchema).parse(input);
+  const duplicate = rules.find((rule, index) => rules.findIndex(other => other.id === rule.id) !== index);
+  if (duplicate) {
+    throw new Error(`Duplicate discount rule id: ${duplicate.id}`);
+  }
+  return rules;
+};
+
+const canConvert = (value: Money, currency: string, context: DiscountContext) =>
+  value.currency === currency || Boolean(context.exchangeRates?.[value.currency] && context.exchangeRates?.[currency]);
+
+const getNumericFact = (
+  { fact, currency }: Extract<RuleCondition, { type: 'compare' }>,
+  context: DiscountContext
+) => {
+  const { subtotal } = context;
+  switch (fact) {
+    case 'selectedCount': return context.selectedServices.length;
+    case 'subtotal':
+      if (currency && !canConvert(subtotal, currency, context)) {
+        return undefined;
+      }
+      return toMajor(currency ? convertMoney(subtotal, currency, context.exchangeRates) : subtotal);
+    case 'applicantCount': return countApplicants(context.applicants);
+    case 'customerOrderCount': return context.customerHistory?.orderCount;
+  }
+};
+
+const compare = (left: number, op: Extract<RuleCondition, { type: 'compare' }>['op'], right: number) => {
+  switch (op) {
+    case '==': return left === right;
+    case '!=': return left !== right;
+    case '>': return left > right;
+    case '>=': return left >= right;
+    case '<': return left < right;
+    case '<=': return left <= right;
+  }
+};
+
+export const evaluateCondition = (condition: RuleCondition, context: DiscountContext): boolean => {
+  switch (condition.type) {
+    case 'all':
+      return condition.conditions.every(inner => evaluateCondition(inner, context));
+    case 'any':
+      return condition.conditions.some(inner => evaluateCondition(inner, context));
+    case 'not':
+      return !evaluateCondition(condition.condition, context);
+    case 'compare': {
+      const value = getNumericFact(condition, context);
+      // Facts that are not known yet (e.g. order history before the e-mail is entered) never match
+      return value !== undefined && compare(value, condition.op, condition.value);
+    }
+    case 'allSelected':
+      return context.catalog.every(service => context.selectedServices.some(selected => selected.id === service.id));
+    case 'selected': {
+      const present = context.selectedServices.map(service =>
+        condition.fact === 'service' ? service.id : service.category
+      );
+      return condition.match === 'all'
+        ? condition.values.every(value => present.includes(value))
+        : condition.values.some(value => present.includes(value));
+    }
+    case 'promoCode':
+      return context.customer.promoCode.trim().toUpperCase() === condition.equals.toUpperCase();
+    case 'dateRange':
+      return isWithinWindow(condition, context.date);
+  }
+};
+
+/** Share of the subtotal the action takes off, or undefined if it can't apply to this order */
+const getActionValue = (action: RuleAction, context: DiscountContext): number | undefined => {
+  const { subtotal } = context;
+  if (subtotal.amount === 0) {
+    return undefined;
+  }
+
+  switch (action.type) {
+    case 'percent':
+      return action.value;
+    case 'fixed': {
+      const amount = money(action.amount, action.currency);
+      if (!canConvert(amount, subtotal.currency, context)) {
+        return undefined;
+      }
+      return Math.min(convertMoney(amount, subtotal.currency, context.exchangeRates).amount, subtotal.amount)
+        / subtotal.amount;
+    }
+    case 'freeItem': {
+      const item = context.lineItems.find(line => line.serviceId === action.serviceId);
+      return item ? item.amount.amount / subtotal.amount : undefined;
+    }
+  }
+};
+
+/** Turns the stored rules that match the order into discounts with a concrete value */
+export const evaluateDiscountRules = (
+  definitions: DiscountRuleDefinition[],
+  context: DiscountContext
+): DiscountRule[] =>
+  definitions.flatMap(definition => {
+    if (definition.validity && !isWithinWindow(definition.validity, context.date)) {
+      return [];
+    }
+    if (definition.when && !evaluateCondition(definition.when, context)) {
+      return [];
+    }
+
+    const value = getActionValue(definition.then, context);
+    if (value === undefined) {
+      return [];
+    }
+
+    return [{
+      type: definition.type,
+      value,
+      description: definition.description,
+      stacking: definition.stacking,
+      group: definition.group,
+      validity: definition.validity
+    }];
+  });
@@ -0,0 +1,107 @@
+import { add, allocate, multiply, sum, type Money } from '../money';
+import type { CustomerContext, LineItemBase, TaxBreakdown, TaxedLineItem, TaxRegion } from './types';
+
+export const ivaRates: Record<TaxRegion, number> = {
+  mainland: 0.23,
+  madeira: 0.22,
+  azores: 0.16
+};
+
+// Format checks only; an online VIES lookup belongs to the backend
+const vatNumberPatterns: Record<string, RegExp> = {
+  AT: /^U\d{8}$/,
+  BE: /^[01]\d{9}$/,
+  BG: /^\d{9,10}$/,
+  CY: /^\d{8}[A-Z]$/,
+  CZ: /^\d{8,10}$/,
+  DE: /^\d{9}$/,
+  DK: /^\d{8}$/,
+  EE: /^\d{9}$/,
+  EL: /^\d{9}$/,
+  ES: /^[A-Z0-9]\d{7}[A-Z0-9]$/,
+  FI: /^\d{8}$/,
+  FR: /^[A-Z0-9]{2}\d{9}$/,
+  HR: /^\d{11}$/,
+  HU: /^\d{8}$/,
+  IE: /^\d{7}[A-W][A-I]?$|^\d[A-Z+*]\d{5}[A-W]$/,
+  IT: /^\d{11}$/,
+  LT: /^(\d{9}|\d{12})$/,
+  LU: /^\d{8}$/,
+  LV: /^\d{11}$/,
+  MT: /^\d{8}$/,
+  NL: /^\d{9}B\d{2}$/,
+  PL: /^\d{10}$/,
+  PT: /^\d{9}$/,
+  RO: /^\d{2,10}$/,
+  SE: /^\d{12}$/,
+  SI: /^\d{8}$/,
+  SK: /^\d{10}$/
+};
+
+export const normalizeVatNumber = (vatNumber: string): string =>
+  vatNumber.toUpperCase().replace(/[\s.-]/g, '');
+
+/** Returns the member state code of a well-formed EU VAT number, or null */
+export const parseEuVatNumber = (vatNumber: string): string | null => {
+  const normalized = normalizeVatNumber(vatNumber);
+  const country = normalized.slice(0, 2);
+  const pattern = vatNumberPatterns[country];
+  return pattern && pattern.test(normalized.slice(2)) ? country : null;
+};
+
+export const isValidEuVatNumber = (vatNumber: string): boolean =>
+  parseEuVatNumber(vatNumber) !== null;
+
+/**
+ * Reverse charge (autoliquidação) applies to B2B supplies to a business
+ * registered for VAT in another member state. Portuguese businesses are
+ * charged IVA as usual.
+ */
+export const isReverseCharge = (customer: CustomerContext): boolean => {
+  if (!customer.isBusiness) {
+    return false;
+  }
+  const country = parseEuVatNumber(customer.vatNumber);
+  return country !== null && country !== 'PT';
+};
+
+/**
+ * Spreads the order discount over the lines and computes IVA per line on the
+ * discounted amount.
+ */
+export const applyTax = (
+  lineItems: LineItemBase[],
+  discountAmount: Money,
+  customer: CustomerContext
+): { lineItems: TaxedLineItem[]; tax: TaxBreakdown } => {
+  const reverseCharge = isReverseCharge(customer);
+  const rate = reverseCharge ? 0 : ivaRates[customer.region];
+  const currency = discountAmount.currency;
+
+  const lineDiscounts = allocate(discountAmount, lineItems.map(item => item.amount.amount));
+
+  const taxedItems: TaxedLineItem[] = lineItems.map((item, index) => {
+    const netAmount = {
+      amount: item.amount.amount - lineDiscounts[index].amount,
+      currency
+    };
+    return {
+      ...item,
+      discountAmount: lineDiscounts[index],
+      netAmount,
+      taxRate: rate,
+      taxAmount: multiply(netAmount, rate),
+      grossAmount: add(item.amount, multiply(item.amount, rate))
+    };
+  });
+
+  return {
+    lineItems: taxedItems,
+    tax: {
+      region: customer.region,
+      rate,
+      reverseCharge,
+      amount: sum(taxedItems.map(item => item.taxAmount), currency)
+    }
+  };
+};
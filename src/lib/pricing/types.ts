@@ -0,0 +1,613 @@
+import type { CustomerHistory } from '../customers';
+import type { Money } from '../money';
+import type { ReferralCode } from '../referrals';
+
+export type ServiceCategory = 'essential' | 'additional' | 'premium';
+
+export type ApplicantType = 'main' | 'spouse' | 'child';
+
+/** Number of people relocating, by type; there is always one main applicant */
+export type Applicants = Record<ApplicantType, number>;
+
+/** `per_person` services are charged for each applicant, `per_family` once per order */
+export type BillingUnit = 'per_person' | 'per_family';
+
+export type ServiceTier = 'standard' | 'express' | 'premium';
+
+/**
+ * Prices set directly in other currencies, keyed by currency code. A currency
+ * without one is converted from the base price.
+ */
+export type LocalPrices = Partial<Record<string, Money>>;
+
+/** Price of one unit of the base currency in each currency, e.g. `{ EUR: 1, RUB: 100 }` */
+export type ExchangeRates = Partial<Record<string, number>>;
+
+/** Internal cost of delivering a service once, for one applicant on `per_person` services */
+export interface ServiceCost {
+  staffHours: number;
+  /** Paid to partners (translators, notaries, bank introducers) */
+  partnerFees?: Money;
+}
+
+/** How costs are valued and how thin the margin may get after discounts */
+export interface CostingPolicy {
+  staffHourlyCost: Money;
+  /** Smallest margin, as a share of revenue, discounts may leave; 0 means "never below cost" */
+  minMargin: number;
+}
+
+/** Roles in manager mode; deep reductions need sign-off from a senior one */
+export type StaffRole = 'manager' | 'senior_manager';
+
+/** Why a manager changed a price or gave a discount, for reporting */
+export type AdjustmentReason = 'competitor_match' | 'repeat_customer' | 'complex_case' | 'goodwill' | 'other';
+
+export interface AdjustmentReasonOption {
+  id: AdjustmentReason;
+  name: string;
+}
+
+/** Work agreed with the customer that is not in the catalog */
+export interface ManualLineItem {
+  id: string;
+  name: string;
+  /** Per unit */
+  price: Money;
+  quantity: number;
+  /** Counted in the order's cost, but never towards its margin floor */
+  cost?: ServiceCost;
+}
+
+/** Negotiated unit price replacing the catalog price of a selected service */
+export interface PriceOverride {
+  serviceId: string;
+  price: Money;
+  reason: AdjustmentReason;
+  note?: string;
+}
+
+export interface ManualDiscount {
+  /** Share of the subtotal, e.g. 0.05 for 5% */
+  rate: number;
+  reason: AdjustmentReason;
+  note?: string;
+}
+
+/** Given in the back office by a signed-in approver; the wizard only passes it on */
+export interface AdjustmentApproval {
+  approvedBy: string;
+  role: StaffRole;
+  approvedAt: Date;
+  /** Deepest reduction the approval covers; going further needs a new one */
+  upToRate: number;
+}
+
+/** What a manager changed in a quote on top of the wizard's own pricing */
+export interface ManagerAdjustments {
+  lines: ManualLineItem[];
+  overrides: PriceOverride[];
+  discount?: ManualDiscount;
+  approval?: AdjustmentApproval;
+}
+
+/** Manager reductions deeper than `threshold` of the list price must be approved by one of `approverRoles` */
+export interface ApprovalPolicy {
+  threshold: number;
+  approverRoles: StaffRole[];
+}
+
+export interface ServiceVariant {
+  id: ServiceTier;
+  name: string;
+  description: string;
+  duration: string;
+  price: Money;
+  localPrices?: LocalPrices;
+  /** Replaces the service's cost for this tier */
+  cost?: ServiceCost;
+}
+
+/** Extra charge for a tight deadline, applied when the target date is at most `withinDays` days away */
+export interface UrgencySurcharge {
+  withinDays: number;
+  /** Share of the line amount added on top, e.g. 0.25 */
+  rate: number;
+}
+
+export interface Service {
+  id: string;
+  name: string;
+  description: string;
+  /** Price of the service itself, used when it has no variants */
+  price: Money;
+  localPrices?: LocalPrices;
+  cost?: ServiceCost;
+  category: ServiceCategory;
+  /** Ids of services that must be ordered together with this one */
+  requires?: string[];
+  /** Speed/support tiers; the first one is the default */
+  variants?: ServiceVariant[];
+  billing?: BillingUnit;
+  /** Discount rate for dependents on `per_person` services, e.g. `{ child: 0.5 }` */
+  dependentDiscounts?: Partial<Record<ApplicantType, number>>;
+  /** Tiers by deadline; the tightest matching one applies */
+  urgency?: UrgencySurcharge[];
+}
+
+export type PackagePricing =
+  | { type: 'fixed'; price: Money }
+  | { type: 'percentage'; value: number };
+
+/**
+ * A named bundle of services. A fixed price covers the standard variants for
+ * a single applicant; upgrades and extra applicants are charged on top.
+ */
+export interface ServicePackage {
+  id: string;
+  name: string;
+  description: string;
+  serviceIds: string[];
+  pricing: PackagePricing;
+}
+
+/** A changed `price` replaces the service's local prices with the entry's own */
+export interface PriceListEntry {
+  price?: Money;
+  localPrices?: LocalPrices;
+  variants?: Partial<Record<ServiceTier, Money>>;
+}
+
+/**
+ * Prices effective from a given moment (Europe/Lisbon wall-clock time).
+ * Entries override the catalog's base prices; services without an entry keep them.
+ */
+export interface PriceList {
+  id: string;
+  version: number;
+  effectiveFrom: string;
+  prices: Record<string, PriceListEntry>;
+}
+
+/** Keeps a quote on the price list it was started with until `expiresAt` */
+export interface PriceLock {
+  priceListId: string;
+  lockedAt: string;
+  expiresAt: string;
+}
+
+export interface AppliedPriceList {
+  id: string;
+  version: number;
+  effectiveFrom: string;
+  locked: boolean;
+  lockExpiresAt?: Date;
+}
+
+/** IVA region: mainland Portugal or one of the autonomous regions */
+export type TaxRegion = 'mainland' | 'madeira' | 'azores';
+
+export interface CustomerContext {
+  name: string;
+  email: string;
+  phone: string;
+  promoCode: string;
+  region: TaxRegion;
+  isBusiness: boolean;
+  vatNumber: string;
+}
+
+export interface DiscountContext {
+  catalog: Service[];
+  selectedServices: Service[];
+  applicants: Applicants;
+  customer: CustomerContext;
+  /** Past orders of the customer; undefined until the contact details have been looked up */
+  customerHistory?: CustomerHistory;
+  date: Date;
+  lineItems: LineItemBase[];
+  subtotal: Money;
+  /** Used to bring fixed amounts set in another currency to the order currency */
+  exchangeRates?: ExchangeRates;
+}
+
+export type DiscountType = 'bulk' | 'promo' | 'first_time' | 'seasonal' | 'referral' | 'manual';
+
+/**
+ * How a matching rule combines with the other matching rules:
+ * - `exclusive` — never combined; applied alone if it beats everything else combined
+ * - `additive` — rates are summed
+ * - `multiplicative` — applied to the price left after additive rules
+ * - `best_of_group` — only the biggest rule of its `group` applies, then stacks additively
+ */
+export type StackingPolicy = 'exclusive' | 'additive' | 'multiplicative' | 'best_of_group';
+
+/** Period a rule is valid in, as wall-clock times of `timeZone` (Europe/Lisbon by default) */
+export interface ValidityWindow {
+  /** Inclusive, `YYYY-MM-DD` or `YYYY-MM-DDTHH:mm` */
+  start?: string;
+  /** Exclusive, same format as `start` */
+  end?: string;
+  /** ISO weekdays the rule applies on, 1 = Monday … 7 = Sunday */
+  weekdays?: number[];
+  timeZone?: string;
+}
+
+/** A discount that applies to the order, with `value` as a share of the subtotal */
+export interface DiscountRule {
+  type: DiscountType;
+  value: number;
+  description: string;
+  stacking: StackingPolicy;
+  group?: string;
+  validity?: ValidityWindow;
+}
+
+export type NumericFact = 'selectedCount' | 'subtotal' | 'applicantCount' | 'customerOrderCount';
+
+export type ComparisonOperator = '==' | '!=' | '>' | '>=' | '<' | '<=';
+
+/** Serializable condition of a discount rule; see `ruleConditionSchema` for the JSON shape */
+export type RuleCondition =
+  | { type: 'all'; conditions: RuleCondition[] }
+  | { type: 'any'; conditions: RuleCondition[] }
+  | { type: 'not'; condition: RuleCondition }
+  /** `subtotal` is compared in major units of `currency`, the order currency when omitted */
+  | { type: 'compare'; fact: NumericFact; op: ComparisonOperator; value: number; currency?: string }
+  | { type: 'allSelected' }
+  /** True when at least one (`match: 'any'`, default) or every (`match: 'all'`) value is among the selected services/categories */
+  | { type: 'selected'; fact: 'service' | 'category'; values: string[]; match?: 'any' | 'all' }
+  | { type: 'promoCode'; equals: string }
+  | ({ type: 'dateRange' } & ValidityWindow);
+
+export type RuleAction =
+  | { type: 'percent'; value: number }
+  /** Amount in major units of `currency` */
+  | { type: 'fixed'; amount: number; currency: string }
+  /** Makes the line of a selected service free */
+  | { type: 'freeItem'; serviceId: string };
+
+/** Discount rule as stored: plain JSON, validated with `discountRuleSchema` */
+export interface DiscountRuleDefinition {
+  id: string;
+  type: DiscountType;
+  description: string;
+  stacking: StackingPolicy;
+  group?: string;
+  /**
+   * Shown as an expiry countdown while the rule applies, e.g. a seasonal rule
+   * with `{ start: '2026-10-01', end: '2026-11-01', timeZone: 'Europe/Lisbon' }`
+   */
+  validity?: ValidityWindow;
+  when?: RuleCondition;
+  then: RuleAction;
+}
+
+export type PromoDiscount =
+  | { type: 'percentage'; value: number }
+  | { type: 'fixed'; amount: Money };
+
+export interface PromoCode {
+  code: string;
+  description: string;
+  discount: PromoDiscount;
+  validity?: ValidityWindow;
+  /** Total redemptions allowed across all customers */
+  maxUses?: number;
+  maxUsesPerCustomer?: number;
+  minSubtotal?: Money;
+  /** Limits the discount to these services and/or categories; no scope means the whole order */
+  serviceIds?: string[];
+  categories?: ServiceCategory[];
+  stacking?: StackingPolicy;
+  group?: string;
+}
+
+export interface PromoCodeUsage {
+  total: number;
+  customer: number;
+}
+
+export interface PromoCodeStore {
+  find: (code: string) => PromoCode | undefined;
+  getUsage: (code: string, customerKey?: string) => PromoCodeUsage;
+  recordUsage: (code: string, customerKey?: string) => void;
+}
+
+export type PromoRejectionReason =
+  | 'not_found'
+  | 'not_started'
+  | 'expired'
+  | 'wrong_weekday'
+  | 'usage_limit'
+  | 'customer_limit'
+  | 'min_subtotal'
+  | 'out_of_scope';
+
+export interface PromoCodeResult {
+  code: string;
+  valid: boolean;
+  reason?: PromoRejectionReason;
+  message: string;
+  /** Rule to feed into discount resolution when the code is valid */
+  rule?: DiscountRule;
+}
+
+export interface ReferralProgram {
+  /** Discount rate the referred customer gets on their first order */
+  refereeDiscount: number;
+  /** Credit the referrer earns for every paid referred order */
+  referrerCredit: Money;
+  stacking: StackingPolicy;
+}
+
+export interface ReferralResult {
+  code: string;
+  valid: boolean;
+  message: string;
+  referrerKey?: string;
+  rule?: DiscountRule;
+}
+
+export interface VoucherResult {
+  code: string;
+  valid: boolean;
+  message: string;
+  /** What is left on the voucher before this order */
+  balance?: Money;
+}
+
+export interface PricingInput {
+  catalog: Service[];
+  selection: string[];
+  /** Chosen variant per service id; services without an entry get their default variant */
+  variants?: Record<string, ServiceTier>;
+  applicants?: Applicants;
+  /** Number of people a `per_person` service is ordered for; defaults to everyone */
+  quantities?: Record<string, number>;
+  packages?: ServicePackage[];
+  /** Package the selection was made through, if any */
+  packageId?: string;
+  customer: CustomerContext;
+  customerHistory?: CustomerHistory;
+  date: Date;
+  discountRules: DiscountRuleDefinition[];
+  /** Upper bound for the combined discount rate, e.g. 0.2 for 20% */
+  discountCap?: number;
+  priceLists?: PriceList[];
+  priceLock?: PriceLock;
+  /** Registry the customer's promo code is looked up in */
+  promoCodes?: PromoCodeStore;
+  referralProgram?: ReferralProgram;
+  /** Result of looking up the customer's referral code; omitted while the lookup is pending */
+  referral?: { code: string; found?: ReferralCode };
+  /** Referral credit the customer has earned and may spend on this order */
+  availableCredit?: Money;
+  /** Gift voucher entered by the customer with its looked-up balance (undefined if not found) */
+  voucher?: { code: string; balance?: Money };
+  /** Currency the order is priced in; services without a local price in it are converted */
+  currency?: string;
+  exchangeRates?: ExchangeRates;
+  paymentPlan?: PaymentPlan;
+  passThroughFees?: PassThroughFee[];
+  /** Day the customer needs the work done by, `YYYY-MM-DD` in Europe/Lisbon */
+  targetDate?: string;
+  costing?: CostingPolicy;
+  adjustments?: ManagerAdjustments;
+  approvalPolicy?: ApprovalPolicy;
+}
+
+export interface LineItemBase {
+  serviceId: string;
+  name: string;
+  variantId?: ServiceTier;
+  variantName?: string;
+  unitPrice: Money;
+  quantity: number;
+  /** Who a `per_person` line is charged for */
+  applicantTypes?: ApplicantType[];
+  /** Per-dependent reductions already deducted from `amount` */
+  dependentDiscountAmount: Money;
+  packageId?: string;
+  /** Share of the package saving already deducted from `amount` */
+  packageDiscountAmount: Money;
+  urgencyRate?: number;
+  /** Surcharge for the customer's deadline, already included in `amount` */
+  urgencySurchargeAmount: Money;
+  /** Set on lines a manager added outside the catalog */
+  manual?: boolean;
+  /** Catalog unit price when a manager replaced it with `unitPrice` */
+  listUnitPrice?: Money;
+  overrideReason?: AdjustmentReason;
+  amount: Money;
+}
+
+export interface TaxedLineItem extends LineItemBase {
+  /** Share of the order discount attributed to this line */
+  discountAmount: Money;
+  netAmount: Money;
+  taxRate: number;
+  taxAmount: Money;
+  /** Undiscounted amount including IVA, for tax-inclusive display */
+  grossAmount: Money;
+}
+
+export interface PriceLineItem extends TaxedLineItem {
+  /** Internal cost of the line; zero without a costing policy */
+  cost: Money;
+  /** `netAmount` minus `cost` */
+  margin: Money;
+}
+
+export interface AppliedAdjustments {
+  /** Taken off the list price by price overrides and the manual discount */
+  reduction: Money;
+  /** `reduction` as a share of the order at list prices */
+  reductionRate: number;
+  /** Set when the quote has overridden or manual prices and its margin is under the floor */
+  belowMinMargin: boolean;
+  approvalRequired: boolean;
+  approved: boolean;
+}
+
+export interface AppliedUrgency {
+  targetDate: string;
+  daysLeft: number;
+  /** Total of the lines' surcharges */
+  amount: Money;
+}
+
+export interface AppliedPackage {
+  id: string;
+  name: string;
+  /** Price of the package's lines without the package saving */
+  listAmount: Money;
+  amount: Money;
+  savings: Money;
+}
+
+/**
+ * State fee (consular fee, AIMA fee) collected with a service and passed on
+ * unchanged: it is never discounted, not subject to IVA and not our revenue.
+ */
+export interface PassThroughFee {
+  id: string;
+  name: string;
+  amount: Money;
+  /** Services the fee is collected with; it is charged once if several are selected */
+  serviceIds: string[];
+  billing?: BillingUnit;
+}
+
+export interface PassThroughLineItem {
+  feeId: string;
+  name: string;
+  serviceId: string;
+  unitAmount: Money;
+  quantity: number;
+  amount: Money;
+}
+
+export interface TaxBreakdown {
+  region: TaxRegion;
+  rate: number;
+  reverseCharge: boolean;
+  amount: Money;
+}
+
+export interface AppliedDiscount {
+  type: DiscountType;
+  value: number;
+  description: string;
+  stacking: StackingPolicy;
+  amount: Money;
+  /** Set for time-limited rules: when the discount stops being available */
+  expiresAt?: Date;
+}
+
+/** A discount the customer would get by adding services to the order */
+export interface DiscountNudge {
+  /** Services to add, prerequisites included */
+  services: Service[];
+  /** The whole selection once they are added */
+  selection: string[];
+  /** Discounts that apply with the new selection but not now */
+  unlocked: AppliedDiscount[];
+  /** Package the added services complete, when the nudge is about one */
+  package?: AppliedPackage;
+  /** How the total changes; usually still an increase */
+  totalChange: Money;
+}
+
+/**
+ * `not_best` — an exclusive rule worth less than the stackable rules combined.
+ * `margin_floor` — nothing was left of the rule once discounts were cut back to the minimum margin.
+ */
+export type SupersededReason = 'exclusive' | 'group' | 'not_best' | 'margin_floor';
+
+export interface SupersededDiscount {
+  type: DiscountType;
+  value: number;
+  description: string;
+  reason: SupersededReason;
+  /** What beat the rule, stacked rules joined with ` + `; not set for `margin_floor` */
+  supersededBy?: string;
+}
+
+/**
+ * How the amount due is paid:
+ * - `full` — everything now
+ * - `deposit` — `share` now, the balance `balanceDueDays` later
+ * - `installments` — `count` equal payments, the first now and then every `intervalDays`
+ * - `per_service` — each service is paid for when work on it starts
+ */
+export type PaymentPlan =
+  | { type: 'full' }
+  | { type: 'deposit'; share: number; balanceDueDays: number }
+  | { type: 'installments'; count: number; intervalDays: number }
+  | { type: 'per_service' };
+
+export interface PaymentPlanOption {
+  id: string;
+  name: string;
+  description: string;
+  plan: PaymentPlan;
+}
+
+export interface Installment {
+  /** 1-based position in the schedule */
+  number: number;
+  description: string;
+  amount: Money;
+  /** Undefined for per-service payments that fall due when the service starts */
+  dueAt?: Date;
+  serviceId?: string;
+}
+
+export interface PriceCalculation {
+  lineItems: PriceLineItem[];
+  selectedServices: Service[];
+  package?: AppliedPackage;
+  /** Moment the calculation was made for */
+  date: Date;
+  /** Price list the lines were priced with */
+  priceList?: AppliedPriceList;
+  urgency?: AppliedUrgency;
+  /** Set when a manager changed the quote */
+  adjustments?: AppliedAdjustments;
+  customerHistory?: CustomerHistory;
+  /** Outcome of checking the customer's promo code, if one was entered */
+  promo?: PromoCodeResult;
+  referral?: ReferralResult;
+  voucher?: VoucherResult;
+  appliedDiscounts: AppliedDiscount[];
+  supersededDiscounts: SupersededDiscount[];
+  currency: string;
+  subtotal: Money;
+  discount: number;
+  discountCapped: boolean;
+  discountAmount: Money;
+  netTotal: Money;
+  tax: TaxBreakdown;
+  fees: PassThroughLineItem[];
+  feesTotal: Money;
+  /** Our income from the order: services after discounts, without IVA and pass-through fees */
+  revenue: Money;
+  cost: Money;
+  /** `revenue` minus `cost` */
+  margin: Money;
+  /** `margin` as a share of `revenue` */
+  marginRate: number;
+  /** Whether discounts were cut back to keep the minimum margin */
+  marginFloorApplied: boolean;
+  /** Services with IVA plus pass-through fees */
+  total: Money;
+  /** Referral credit spent on this order, deducted after tax */
+  creditApplied: Money;
+  /** Gift voucher balance spent on this order, after credit */
+  voucherApplied: Money;
+  /** What is left to pay after credit and voucher */
+  amountDue: Money;
+  /** How `amountDue` is split into payments; a single one for `full` */
+  schedule: Installment[];
+}
@@ -0,0 +1,40 @@
+import { add, multiply, sum } from '../money';
+import type { AppliedUrgency, LineItemBase, Service } from './types';
+
+/** Rate of the tightest tier the deadline falls into, or undefined if none does */
+export const getUrgencyRate = (service: Service, daysLeft: number): number | undefined =>
+  service.urgency
+    ?.filter(tier => daysLeft <= tier.withinDays)
+    .sort((a, b) => a.withinDays - b.withinDays)[0]?.rate;
+
+/**
+ * Adds deadline surcharges on top of the lines' amounts, after any package
+ * saving, so they are discounted and taxed like the rest of our work.
+ */
+export const applyUrgency = (
+  lineItems: LineItemBase[],
+  catalog: Service[],
+  targetDate: string,
+  daysLeft: number
+): { lineItems: LineItemBase[]; applied?: AppliedUrgency } => {
+  if (daysLeft < 0) {
+    return { lineItems };
+  }
+
+  const surcharged = lineItems.map(item => {
+    const service = catalog.find(candidate => candidate.id === item.serviceId);
+    const rate = service && getUrgencyRate(service, daysLeft);
+    if (!rate) {
+      return item;
+    }
+    const surcharge = multiply(item.amount, rate);
+    return { ...item, urgencyRate: rate, urgencySurchargeAmount: surcharge, amount: add(item.amount, surcharge) };
+  });
+
+  const currency = lineItems[0]?.amount.currency;
+  const amount = currency ? sum(surcharged.map(item => item.urgencySurchargeAmount), currency) : undefined;
+  return {
+    lineItems: surcharged,
+    applied: amount && amount.amount > 0 ? { targetDate, daysLeft, amount } : undefined
+  };
+};
@@ -0,0 +1,117 @@
+import type { ValidityWindow } from './types';
+
+export const defaultTimeZone = 'Europe/Lisbon';
+
+export type Clock = () => Date;
+
+export const systemClock: Clock = () => new Date();
+
+interface ZonedParts {
+  year: number;
+  month: number;
+  day: number;
+  hour: number;
+  minute: number;
+  /** ISO weekday, 1 = Monday … 7 = Sunday */
+  weekday: number;
+}
+
+const weekdays = ['Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat', 'Sun'];
+
+const getZonedParts = (date: Date, timeZone: string): ZonedParts => {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    weekday: 'short',
+    hourCycle: 'h23'
+  }).formatToParts(date);
+  const get = (type: string) => parts.find(part => part.type === type)?.value ?? '';
+
+  return {
+    year: Number(get('year')),
+    month: Number(get('month')),
+    day: Number(get('day')),
+    hour: Number(get('hour')),
+    minute: Number(get('minute')),
+    weekday: weekdays.indexOf(get('weekday')) + 1
+  };
+};
+
+const pad = (value: number) => String(value).padStart(2, '0');
+
+/** Wall-clock time in the zone as `YYYY-MM-DDTHH:mm`, comparable as a string */
+const toLocalString = ({ year, month, day, hour, minute }: ZonedParts) =>
+  `${year}-${pad(month)}-${pad(day)}T${pad(hour)}:${pad(minute)}`;
+
+/** Window bounds may be given as a date (`2026-11-01`) or a date-time (`2026-11-01T18:00`) */
+const normalizeLocal = (value: string) => (value.length === 10 ? `${value}T00:00` : value.slice(0, 16));
+
+/** Converts a wall-clock time in `timeZone` to an instant */
+export const zonedTimeToDate = (local: string, timeZone: string): Date => {
+  const [datePart, timePart] = normalizeLocal(local).split('T');
+  const [year, month, day] = datePart.split('-').map(Number);
+  const [hour, minute] = timePart.split(':').map(Number);
+  const asUtc = Date.UTC(year, month - 1, day, hour, minute);
+
+  // The zone offset is read at the guessed instant and once more after correcting, to settle across DST changes
+  let result = asUtc;
+  for (let i = 0; i < 2; i++) {
+    const parts = getZonedParts(new Date(result), timeZone);
+    const shown = Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour, parts.minute);
+    result += asUtc - shown;
+  }
+  return new Date(result);
+};
+
+export const isWithinWindow = (window: ValidityWindow, date: Date): boolean => {
+  const timeZone = window.timeZone ?? defaultTimeZone;
+  const parts = getZonedParts(date, timeZone);
+  const local = toLocalString(parts);
+
+  if (window.start && local < normalizeLocal(window.start)) {
+    return false;
+  }
+  if (window.end && local >= normalizeLocal(window.end)) {
+    return false;
+  }
+  return !window.weekdays || window.weekdays.includes(parts.weekday);
+};
+
+/**
+ * When a window that is open at `date` closes next: either its end or the
+ * end of the current day if the following weekday is not part of it.
+ */
+export const getWindowExpiry = (window: ValidityWindow, date: Date): Date | undefined => {
+  const timeZone = window.timeZone ?? defaultTimeZone;
+  const end = window.end ? zonedTimeToDate(window.end, timeZone) : undefined;
+
+  if (!window.weekdays) {
+    return end;
+  }
+
+  const parts = getZonedParts(date, timeZone);
+  const tomorrow = (parts.weekday % 7) + 1;
+  if (window.weekdays.includes(tomorrow)) {
+    return end;
+  }
+
+  const nextDay = new Date(Date.UTC(parts.year, parts.month - 1, parts.day + 1));
+  const midnight = zonedTimeToDate(
+    `${nextDay.getUTCFullYear()}-${pad(nextDay.getUTCMonth() + 1)}-${pad(nextDay.getUTCDate())}`,
+    timeZone
+  );
+  return end && end < midnight ? end : midnight;
+};
+
+/** Whole calendar days from `date` to a local `YYYY-MM-DD` day in `timeZone`; 0 when it is today */
+export const daysUntil = (day: string, date: Date, timeZone = defaultTimeZone): number => {
+  const [year, month, dayOfMonth] = day.slice(0, 10).split('-').map(Number);
+  const today = getZonedParts(date, timeZone);
+  return Math.round(
+    (Date.UTC(year, month - 1, dayOfMonth) - Date.UTC(today.year, today.month - 1, today.day)) / (24 * 60 * 60 * 1000)
+  );
+};
@@ -0,0 +1,23 @@
+import type { Service, ServiceTier, ServiceVariant } from './types';
+
+/**
+ * Returns the variant chosen for a service, falling back to its default one.
+ * Services without variants resolve to undefined.
+ */
+export const resolveVariant = (service: Service, variantId?: ServiceTier): ServiceVariant | undefined => {
+  if (!service.variants || service.variants.length === 0) {
+    return undefined;
+  }
+  if (!variantId) {
+    return service.variants[0];
+  }
+
+  const variant = service.variants.find(candidate => candidate.id === variantId);
+  if (!variant) {
+    throw new Error(`Unknown variant "${variantId}" for service ${service.id}`);
+  }
+  return variant;
+};
+
+export const getServicePrice = (service: Service, variantId?: ServiceTier) =>
+  resolveVariant(service, variantId)?.price ?? service.price;
@@ -0,0 +1,16 @@
+import { formatMoney, type Money } from '../money';
+import { normalizeVoucherCode } from '../vouchers';
+import type { VoucherResult } from './types';
+
+/** Checks a looked-up gift voucher; `balance` is undefined when no voucher has that code */
+export const evaluateVoucher = (rawCode: string, balance: Money | undefined): VoucherResult => {
+  const code = normalizeVoucherCode(rawCode);
+
+  if (!balance) {
+    return { code, valid: false, message: 'Подарочный сертификат не найден' };
+  }
+  if (balance.amount <= 0) {
+    return { code, valid: false, message: 'Баланс сертификата исчерпан' };
+  }
+  return { code, valid: true, message: `Баланс сертификата: ${formatMoney(balance)}`, balance };
+};
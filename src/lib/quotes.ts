@@ -0,0 +1,278 @@
+import { subtract, type Money } from './money';
+import type { AdjustmentApproval, ExchangeRates, ManagerAdjustments, PriceCalculation } from './pricing';
+import type { RateLock } from './rates';
+import { createJsonStore, defaultStorage } from './storage';
+
+export interface QuoteLine {
+  serviceId: string;
+  name: string;
+  variantName?: string;
+  quantity: number;
+  unitPrice: Money;
+  /** After package, urgency and order discounts, without IVA */
+  netAmount: Money;
+  manual?: boolean;
+}
+
+export interface QuoteDiscount {
+  description: string;
+  amount: Money;
+}
+
+/** When the rates of a version were fetched and then locked for payment */
+export interface QuoteRateLock {
+  fetchedAt: Date;
+  lockedAt: Date;
+}
+
+/** What the customer was offered at one point; a new version is added whenever that changes */
+export interface QuoteVersion {
+  version: number;
+  createdAt: Date;
+  lines: QuoteLine[];
+  packageName?: string;
+  discounts: QuoteDiscount[];
+  subtotal: Money;
+  tax: Money;
+  fees: Money;
+  total: Money;
+  /** Price list and exchange rates the version was priced with */
+  priceListId?: string;
+  exchangeRates: ExchangeRates;
+  /** Not set while the rates are only indicative, before the payment step locks them */
+  rateLock?: QuoteRateLock;
+  adjustments?: ManagerAdjustments;
+}
+
+export type QuoteContent = Omit<QuoteVersion, 'version' | 'createdAt'>;
+
+export interface Quote {
+  number: string;
+  createdAt: Date;
+  expiresAt: Date;
+  /** Oldest first */
+  versions: QuoteVersion[];
+  /** Set once the quote has been paid */
+  orderId?: string;
+}
+
+export type QuoteLineChange =
+  | { type: 'added'; after: QuoteLine }
+  | { type: 'removed'; before: QuoteLine }
+  | { type: 'changed'; before: QuoteLine; after: QuoteLine };
+
+export interface QuoteRateChange {
+  currency: string;
+  before?: number;
+  after?: number;
+}
+
+export interface QuoteDiff {
+  lines: QuoteLineChange[];
+  addedDiscounts: QuoteDiscount[];
+  removedDiscounts: QuoteDiscount[];
+  rates: QuoteRateChange[];
+  /** Set when the later version has its rates locked and the earlier one did not */
+  ratesLockedAt?: Date;
+  totalChange: Money;
+}
+
+export interface QuoteRepository {
+  createQuote: (content: QuoteContent, date: Date, expiresAt: Date) => Promise<Quote>;
+  findQuote: (number: string) => Promise<Quote | undefined>;
+  /** Adds a version if `content` differs from the latest one, otherwise returns the quote as is */
+  reviseQuote: (number: string, content: QuoteContent, date: Date) => Promise<Quote>;
+  markOrdered: (number: string, orderId: string) => Promise<Quote>;
+}
+
+export const getLatestVersion = (quote: Quote): QuoteVersion => quote.versions[quote.versions.length - 1];
+
+export const isQuoteExpired = (quote: Quote, date: Date) => date.getTime() >= quote.expiresAt.getTime();
+
+export const toQuoteContent = (
+  calculation: PriceCalculation,
+  exchangeRates: ExchangeRates,
+  rateLock?: RateLock,
+  adjustments?: ManagerAdjustments
+): QuoteContent => ({
+  lines: calculation.lineItems.map(item => ({
+    serviceId: item.serviceId,
+    name: item.name,
+    variantName: item.variantName,
+    quantity: item.quantity,
+    unitPrice: item.unitPrice,
+    netAmount: item.netAmount,
+    manual: item.manual
+  })),
+  packageName: calculation.package?.name,
+  discounts: calculation.appliedDiscounts.map(({ description, amount }) => ({ description, amount })),
+  subtotal: calculation.subtotal,
+  tax: calculation.tax.amount,
+  fees: calculation.feesTotal,
+  total: calculation.total,
+  priceListId: calculation.priceList?.id,
+  exchangeRates,
+  rateLock: rateLock && { fetchedAt: rateLock.table.fetchedAt, lockedAt: rateLock.lockedAt },
+  adjustments
+});
+
+const isSameLine = (a: QuoteLine, b: QuoteLine) =>
+  a.variantName === b.variantName &&
+  a.quantity === b.quantity &&
+  a.unitPrice.amount === b.unitPrice.amount &&
+  a.netAmount.amount === b.netAmount.amount;
+
+const diffRates = (from: ExchangeRates, to: ExchangeRates): QuoteRateChange[] =>
+  [...new Set([...Object.keys(from), ...Object.keys(to)])]
+    .filter(currency => from[currency] !== to[currency])
+    .map(currency => ({ currency, before: from[currency], after: to[currency] }));
+
+/**
+ * Lines are matched by service and discounts by description, their amounts
+ * showing in the lines and the total. Rates are compared too: they decide what
+ * the customer pays in their own currency.
+ */
+export const diffQuoteVersions = (from: QuoteContent, to: QuoteContent): QuoteDiff => {
+  const lines: QuoteLineChange[] = [];
+  from.lines.forEach(before => {
+    const after = to.lines.find(line => line.serviceId === before.serviceId);
+    if (!after) {
+      lines.push({ type: 'removed', before });
+    } else if (!isSameLine(before, after)) {
+      lines.push({ type: 'changed', before, after });
+    }
+  });
+  to.lines
+    .filter(after => !from.lines.some(line => line.serviceId === after.serviceId))
+    .forEach(after => lines.push({ type: 'added', after }));
+
+  return {
+    lines,
+    addedDiscounts: to.discounts.filter(discount => !from.discounts.some(other => other.description === discount.description)),
+    removedDiscounts: from.discounts.filter(discount => !to.discounts.some(other => other.description === discount.description)),
+    rates: diffRates(from.exchangeRates, to.exchangeRates),
+    ratesLockedAt: from.rateLock ? undefined : to.rateLock?.lockedAt,
+    totalChange: subtract(to.total, from.total)
+  };
+};
+
+export const isEmptyDiff = (diff: QuoteDiff) =>
+  diff.lines.length === 0 &&
+  diff.addedDiscounts.length === 0 &&
+  diff.removedDiscounts.length === 0 &&
+  diff.rates.length === 0 &&
+  !diff.ratesLockedAt &&
+  diff.totalChange.amount === 0;
+
+type StoredRateLock = { fetchedAt: string; lockedAt: string };
+
+type StoredAdjustments = Omit<ManagerAdjustments, 'approval'> & {
+  approval?: Omit<AdjustmentApproval, 'approvedAt'> & { approvedAt: string };
+};
+
+interface StoredQuote extends Omit<Quote, 'createdAt' | 'expiresAt' | 'versions'> {
+  createdAt: string;
+  expiresAt: string;
+  versions: (Omit<QuoteVersion, 'createdAt' | 'rateLock' | 'adjustments'> & {
+    createdAt: string;
+    rateLock?: StoredRateLock;
+    adjustments?: StoredAdjustments;
+  })[];
+}
+
+const serialize = (quote: Quote): StoredQuote => ({
+  ...quote,
+  createdAt: quote.createdAt.toISOString(),
+  expiresAt: quote.expiresAt.toISOString(),
+  versions: quote.versions.map(version => ({
+    ...version,
+    createdAt: version.createdAt.toISOString(),
+    rateLock: version.rateLock && {
+      fetchedAt: version.rateLock.fetchedAt.toISOString(),
+      lockedAt: version.rateLock.lockedAt.toISOString()
+    },
+    adjustments: version.adjustments && {
+      ...version.adjustments,
+      approval: version.adjustments.approval && {
+        ...version.adjustments.approval,
+        approvedAt: version.adjustments.approval.approvedAt.toISOString()
+      }
+    }
+  }))
+});
+
+const deserialize = (quote: StoredQuote): Quote => ({
+  ...quote,
+  createdAt: new Date(quote.createdAt),
+  expiresAt: new Date(quote.expiresAt),
+  versions: quote.versions.map(version => ({
+    ...version,
+    createdAt: new Date(version.createdAt),
+    rateLock: version.rateLock && {
+      fetchedAt: new Date(version.rateLock.fetchedAt),
+      lockedAt: new Date(version.rateLock.lockedAt)
+    },
+    adjustments: version.adjustments && {
+      ...version.adjustments,
+      approval: version.adjustments.approval && {
+        ...version.adjustments.approval,
+        approvedAt: new Date(version.adjustments.approval.approvedAt)
+      }
+    }
+  }))
+});
+
+/** Quotes with all their versions, numbered `Q-<year>-<sequence>` */
+export const createLocalQuotes = (
+  storage: Storage | undefined = defaultStorage(),
+  storageKey = 'quotes'
+): QuoteRepository => {
+  const { load, save } = createJsonStore<StoredQuote[]>(storage, storageKey, []);
+
+  const findQuote = async (number: string) => {
+    const stored = load().find(quote => quote.number === number);
+    return stored && deserialize(stored);
+  };
+
+  const update = async (number: string, change: (quote: Quote) => Quote) => {
+    const quote = await findQuote(number);
+    if (!quote) {
+      throw new Error(`Unknown quote: ${number}`);
+    }
+    const updated = change(quote);
+    save(load().map(stored => (stored.number === number ? serialize(updated) : stored)));
+    return updated;
+  };
+
+  return {
+    createQuote: async (content, date, expiresAt) => {
+      const quotes = load();
+      const prefix = `Q-${date.getFullYear()}-`;
+      const sequence = quotes.filter(quote => quote.number.startsWith(prefix)).length + 1;
+      const created: Quote = {
+        number: `${prefix}${String(sequence).padStart(4, '0')}`,
+        createdAt: date,
+        expiresAt,
+        versions: [{ ...content, version: 1, createdAt: date }]
+      };
+      save([...quotes, serialize(created)]);
+      return created;
+    },
+    findQuote,
+    reviseQuote: async (number, content, date) => {
+      const quote = await findQuote(number);
+      if (!quote) {
+        throw new Error(`Unknown quote: ${number}`);
+      }
+      const latest = getLatestVersion(quote);
+      if (isEmptyDiff(diffQuoteVersions(latest, content))) {
+        return quote;
+      }
+      return update(number, current => ({
+        ...current,
+        versions: [...current.versions, { ...content, version: latest.version + 1, createdAt: date }]
+      }));
+    },
+    markOrdered: (number, orderId) => update(number, quote => ({ ...quote, orderId }))
+  };
+};
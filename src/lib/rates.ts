@@ -0,0 +1,87 @@
+import { systemClock, type Clock, type ExchangeRates } from './pricing';
+import { createJsonStore, defaultStorage } from './storage';
+
+/** Rates as returned by a provider: the price of one `base` unit in each currency */
+export interface RateTable {
+  base: string;
+  rates: ExchangeRates;
+  fetchedAt: Date;
+}
+
+export interface ExchangeRateProvider {
+  getRates: () => Promise<RateTable>;
+}
+
+/** Rates the converted amounts are charged with until `expiresAt` */
+export interface RateLock {
+  table: RateTable;
+  lockedAt: Date;
+  expiresAt: Date;
+}
+
+export const isRateTableStale = (table: RateTable, now: Date, maxAgeMs: number) =>
+  now.getTime() - table.fetchedAt.getTime() > maxAgeMs;
+
+/** Adds a spread on top of the rate into `currency`, e.g. 0.03 for a 3% card route fee */
+export const withMarkup = (rates: ExchangeRates, currency: string, markup: number): ExchangeRates =>
+  rates[currency] && markup ? { ...rates, [currency]: rates[currency] * (1 + markup) } : rates;
+
+export const createRateLock = (table: RateTable, now: Date, minutes: number): RateLock => ({
+  table,
+  lockedAt: now,
+  expiresAt: new Date(now.getTime() + minutes * 60_000)
+});
+
+/** Local mock that always answers with the given rates, stamped with the current time */
+export const createStaticRateProvider = (
+  rates: ExchangeRates,
+  base = 'EUR',
+  clock: Clock = systemClock
+): ExchangeRateProvider => ({
+  getRates: async () => ({ base, rates: { ...rates }, fetchedAt: clock() })
+});
+
+interface StoredRateTable extends Omit<RateTable, 'fetchedAt'> {
+  fetchedAt: string;
+}
+
+/**
+ * Remembers the last rate table and only asks `provider` again once it is
+ * older than `maxAgeMs`. When the provider fails the cached table is returned
+ * even if stale.
+ */
+export const createCachedRateProvider = (
+  provider: ExchangeRateProvider,
+  maxAgeMs: number,
+  clock: Clock = systemClock,
+  storage: Storage | undefined = defaultStorage(),
+  storageKey = 'exchange-rates'
+): ExchangeRateProvider => {
+  const store = createJsonStore<StoredRateTable | undefined>(storage, storageKey, undefined);
+
+  const load = (): RateTable | undefined => {
+    const stored = store.load();
+    return stored && { ...stored, fetchedAt: new Date(stored.fetchedAt) };
+  };
+
+  const save = (table: RateTable) => store.save({ ...table, fetchedAt: table.fetchedAt.toISOString() });
+
+  return {
+    getRates: async () => {
+      const cached = load();
+      if (cached && !isRateTableStale(cached, clock(), maxAgeMs)) {
+        return cached;
+      }
+      try {
+        const table = await provider.getRates();
+        save(table);
+        return table;
+      } catch (error) {
+        if (cached) {
+          return cached;
+        }
+        throw error;
+      }
+    }
+  };
+};
@@ -0,0 +1,93 @@
+import { add, subtract, zero, type Money } from './money';
+import { createJsonStore, defaultStorage } from './storage';
+
+export interface ReferralCode {
+  code: string;
+  /** Customer key (normalized e-mail) of the customer who shares the code */
+  referrerKey: string;
+}
+
+/** A paid order placed with someone's referral code */
+export interface ReferralRecord {
+  orderId: string;
+  code: string;
+  referrerKey: string;
+  refereeKey: string;
+  credit: Money;
+  date: Date;
+}
+
+export interface CreditRedemption {
+  orderId: string;
+  customerKey: string;
+  amount: Money;
+  date: Date;
+}
+
+export interface ReferralRepository {
+  findCode: (code: string) => Promise<ReferralCode | undefined>;
+  getOrCreateCode: (customerKey: string) => Promise<ReferralCode>;
+  getCredit: (customerKey: string, currency: string) => Promise<Money>;
+  recordReferral: (record: ReferralRecord) => Promise<void>;
+  redeemCredit: (redemption: CreditRedemption) => Promise<void>;
+}
+
+export const normalizeReferralCode = (code: string) => code.trim().toUpperCase();
+
+interface StoredReferrals {
+  codes: ReferralCode[];
+  referrals: (Omit<ReferralRecord, 'date'> & { date: string })[];
+  redemptions: (Omit<CreditRedemption, 'date'> & { date: string })[];
+}
+
+const generateCode = (customerKey: string) =>
+  `NOMAD-${customerKey.replace(/[^a-z]/gi, '').slice(0, 4).toUpperCase()}${Math.random().toString(36).slice(2, 6).toUpperCase()}`;
+
+/**
+ * Referral codes and credit ledger kept in `storage`. A customer's credit is
+ * what their referrals earned minus what they already redeemed.
+ */
+export const createLocalReferrals = (
+  codes: ReferralCode[] = [],
+  storage: Storage | undefined = defaultStorage(),
+  storageKey = 'referrals'
+): ReferralRepository => {
+  const empty: StoredReferrals = { codes: [], referrals: [], redemptions: [] };
+  const store = createJsonStore<Partial<StoredReferrals>>(storage, storageKey, empty);
+  const load = (): StoredReferrals => ({ ...empty, ...store.load() });
+  const { save } = store;
+
+  const allCodes = () => [...codes, ...load().codes];
+
+  return {
+    findCode: async (code) =>
+      allCodes().find(candidate => candidate.code === normalizeReferralCode(code)),
+    getOrCreateCode: async (customerKey) => {
+      const existing = allCodes().find(candidate => candidate.referrerKey === customerKey);
+      if (existing) {
+        return existing;
+      }
+      const stored = load();
+      const created = { code: generateCode(customerKey), referrerKey: customerKey };
+      save({ ...stored, codes: [...stored.codes, created] });
+      return created;
+    },
+    getCredit: async (customerKey, currency) => {
+      const stored = load();
+      const earned = stored.referrals
+        .filter(record => record.referrerKey === customerKey && record.credit.currency === currency)
+        .reduce((total, record) => add(total, record.credit), zero(currency));
+      return stored.redemptions
+        .filter(redemption => redemption.customerKey === customerKey && redemption.amount.currency === currency)
+        .reduce((total, redemption) => subtract(total, redemption.amount), earned);
+    },
+    recordReferral: async (record) => {
+      const stored = load();
+      save({ ...stored, referrals: [...stored.referrals, { ...record, date: record.date.toISOString() }] });
+    },
+    redeemCredit: async (redemption) => {
+      const stored = load();
+      save({ ...stored, redemptions: [...stored.redemptions, { ...redemption, date: redemption.date.toISOString() }] });
+    }
+  };
+};
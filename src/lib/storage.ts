@@ -0,0 +1,49 @@
+/** A JSON value kept under one storage key */
+export interface JsonStore<T> {
+  load: () => T;
+  save: (value: T) => void;
+  clear: () => void;
+}
+
+export const defaultStorage = (): Storage | undefined =>
+  typeof localStorage !== 'undefined' ? localStorage : undefined;
+
+/**
+ * Keeps a JSON value under `key` in `storage`, or in memory where there is no
+ * storage. An entry that cannot be read is never written over: the store
+ * falls back to memory for the rest of the session and leaves it as it is.
+ */
+export const createJsonStore = <T>(storage: Storage | undefined, key: string, initial: T): JsonStore<T> => {
+  let memory = initial;
+  let unreadable = false;
+  const persistent = () => Boolean(storage) && !unreadable;
+
+  return {
+    load: () => {
+      if (!persistent()) {
+        return memory;
+      }
+      try {
+        const stored = storage.getItem(key);
+        return stored === null ? initial : JSON.parse(stored);
+      } catch {
+        unreadable = true;
+        return memory;
+      }
+    },
+    save: (value) => {
+      if (persistent()) {
+        storage.setItem(key, JSON.stringify(value));
+      } else {
+        memory = value;
+      }
+    },
+    clear: () => {
+      if (persistent()) {
+        storage.removeItem(key);
+      } else {
+        memory = initial;
+      }
+    }
+  };
+};
@@ -0,0 +1,88 @@
+import { subtract, type Money } from './money';
+import { createJsonStore, defaultStorage } from './storage';
+
+export interface GiftVoucher {
+  code: string;
+  initialBalance: Money;
+  issuedAt: Date;
+  /** `admin` for vouchers given out by the team, `purchase` for ones bought through the wizard */
+  issuedBy: 'admin' | 'purchase';
+  /** E-mail of whoever bought it, for purchased vouchers */
+  purchaserEmail?: string;
+}
+
+export interface VoucherRedemption {
+  code: string;
+  orderId: string;
+  amount: Money;
+  date: Date;
+}
+
+export interface VoucherBalance {
+  voucher: GiftVoucher;
+  balance: Money;
+}
+
+export interface VoucherRepository {
+  /** The voucher with what is left on it after earlier redemptions */
+  findVoucher: (code: string) => Promise<VoucherBalance | undefined>;
+  issueVoucher: (voucher: Omit<GiftVoucher, 'code' | 'issuedAt'>, date: Date) => Promise<GiftVoucher>;
+  redeem: (redemption: VoucherRedemption) => Promise<void>;
+}
+
+export const normalizeVoucherCode = (code: string) => code.trim().toUpperCase();
+
+interface StoredVouchers {
+  vouchers: (Omit<GiftVoucher, 'issuedAt'> & { issuedAt: string })[];
+  redemptions: (Omit<VoucherRedemption, 'date'> & { date: string })[];
+}
+
+const generateCode = () =>
+  `GIFT-${Math.random().toString(36).slice(2, 6).toUpperCase()}-${Math.random().toString(36).slice(2, 6).toUpperCase()}`;
+
+/**
+ * Gift vouchers: the fixed `vouchers` plus those sold here, with their
+ * redemptions saved in `storage`. A voucher can be spent over several orders
+ * until its balance runs out.
+ */
+export const createLocalVouchers = (
+  vouchers: GiftVoucher[] = [],
+  storage: Storage | undefined = defaultStorage(),
+  storageKey = 'gift-vouchers'
+): VoucherRepository => {
+  const empty: StoredVouchers = { vouchers: [], redemptions: [] };
+  const store = createJsonStore<Partial<StoredVouchers>>(storage, storageKey, empty);
+  const load = (): StoredVouchers => ({ ...empty, ...store.load() });
+  const { save } = store;
+
+  return {
+    findVoucher: async (code) => {
+      const stored = load();
+      const normalized = normalizeVoucherCode(code);
+      const voucher = [
+        ...vouchers,
+        ...stored.vouchers.map(voucher => ({ ...voucher, issuedAt: new Date(voucher.issuedAt) }))
+      ].find(candidate => candidate.code === normalized);
+      if (!voucher) {
+        return undefined;
+      }
+      const balance = stored.redemptions
+        .filter(redemption => redemption.code === normalized)
+        .reduce((left, redemption) => subtract(left, redemption.amount), voucher.initialBalance);
+      return { voucher, balance };
+    },
+    issueVoucher: async (voucher, date) => {
+      const stored = load();
+      const issued = { ...voucher, code: generateCode(), issuedAt: date };
+      save({ ...stored, vouchers: [...stored.vouchers, { ...issued, issuedAt: date.toISOString() }] });
+      return issued;
+    },
+    redeem: async (redemption) => {
+      const stored = load();
+      save({
+        ...stored,
+        redemptions: [...stored.redemptions, { ...redemption, code: normalizeVoucherCode(redemption.code), date: redemption.date.toISOString() }]
+      });
+    }
+  };
+};
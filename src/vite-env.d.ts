@@ -1 +1,6 @@
 /// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  /** `true` in the staff build, which adds manager mode */
+  readonly VITE_STAFF_MODE?: string;
+}